@@ -0,0 +1,56 @@
+/**
+ * Shared helpers for agent backends
+ */
+
+import { spawn, ChildProcess } from 'node:child_process';
+import { SPAWN_DETACHED, trackProcessTree } from '../claude/process-tree.js';
+import { ErrorCode } from '../utils/error-handler.js';
+import type { BackendCommand, ErrorClassification, RunOutcome } from './types.js';
+
+/**
+ * Spawn a backend command with piped output in its own process group.
+ *
+ * Never uses a shell: arguments (including the task text) reach the child
+ * byte-for-byte, so quotes, `$()` and backticks are not interpreted on the host.
+ */
+export function spawnCommand(command: BackendCommand): ChildProcess {
+  const child = spawn(command.command, command.args, {
+    cwd: command.cwd,
+    env: command.env ?? process.env,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    shell: false,
+    windowsHide: true,
+    detached: SPAWN_DETACHED, // Own process group, so the agent's children can be killed too
+  });
+  // Stopped on shutdown: a detached group would keep running without the server
+  trackProcessTree(child);
+  return child;
+}
+
+/**
+ * Whether a spawn error means the executable could not be found
+ */
+export function isNotFoundError(error: Error | undefined): boolean {
+  return !!error && (error.message.includes('ENOENT') || error.message.includes('not found'));
+}
+
+/**
+ * Default classification: missing executable vs. generic failure
+ */
+export function classifyCommonError(
+  outcome: RunOutcome,
+  notFound: ErrorClassification
+): ErrorClassification {
+  if (isNotFoundError(outcome.spawnError)) {
+    return notFound;
+  }
+
+  if (outcome.spawnError) {
+    return { code: ErrorCode.EXECUTION_FAILED, message: outcome.spawnError.message };
+  }
+
+  return {
+    code: ErrorCode.EXECUTION_FAILED,
+    message: `Process exited with code ${outcome.exitCode}`,
+  };
+}
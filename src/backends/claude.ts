@@ -0,0 +1,106 @@
+/**
+ * Claude Code CLI Backend
+ *
+ * The default backend: runs `claude -p` non-interactively.
+ */
+
+import { resolveClaudeBinary } from '../claude/resolve-binary.js';
+import { StreamJsonParser } from '../claude/stream-json.js';
+import { ErrorCode } from '../utils/error-handler.js';
+import { classifyCommonError, spawnCommand } from './base.js';
+import type { AgentBackend, BackendCommand, BackendRunOptions, ErrorClassification, RunOutcome } from './types.js';
+
+/**
+ * Arguments that must not be passed through to claude
+ * (npx/npm flags that might be forwarded, or -p which we add ourselves)
+ */
+const INVALID_ARGS = new Set([
+  '-p', '--print',
+  '-y', '--yes',
+  '-n', '--no', '--no-yes',
+  '--cache',
+  '--ignore-existing',
+]);
+
+export interface ClaudeBackendOptions {
+  /** Path or name of the claude binary (default: CLAUDE_BIN, then `claude` on PATH) */
+  binary?: string;
+}
+
+/**
+ * Create a Claude Code backend
+ */
+export function createClaudeBackend(backendOptions: ClaudeBackendOptions = {}): AgentBackend {
+  return {
+    name: 'claude',
+    description: 'Claude Code CLI (`claude -p`)',
+    supportsResume: true,
+
+    buildCommand(options: BackendRunOptions): BackendCommand {
+      // Resolved per run so PATH or CLAUDE_BIN changes are picked up
+      const binary = resolveClaudeBinary(backendOptions.binary);
+      return {
+        command: binary.command,
+        args: [...binary.prefixArgs, ...buildCliArgs(options)],
+        cwd: options.cwd,
+      };
+    },
+
+    spawn: spawnCommand,
+
+    createOutputParser(options: BackendRunOptions) {
+      return options.outputFormat === 'stream-json' ? new StreamJsonParser() : null;
+    },
+
+    classifyError(outcome: RunOutcome): ErrorClassification {
+      if (outcome.structured?.isError) {
+        const subtype = outcome.structured.subtype;
+        return {
+          code: subtype?.includes('budget') ? ErrorCode.BUDGET_EXCEEDED : ErrorCode.EXECUTION_FAILED,
+          message: `Claude Code reported an error result${subtype ? ` (${subtype})` : ''}`,
+        };
+      }
+
+      return classifyCommonError(outcome, {
+        code: ErrorCode.CLAUDE_NOT_FOUND,
+        message: 'Claude Code CLI not found. Please ensure Claude Code is installed and in your PATH, or set CLAUDE_BIN.',
+      });
+    },
+  };
+}
+
+export const claudeBackend = createClaudeBackend();
+
+/**
+ * Build CLI arguments for Claude Code
+ */
+function buildCliArgs(options: BackendRunOptions): string[] {
+  const { task, cwd, additionalArgs, outputFormat, resumeSessionId, maxBudgetUsd } = options;
+  const args: string[] = [];
+
+  // Always add working directory to allowed directories
+  args.push('--add-dir', cwd);
+
+  const filteredArgs = additionalArgs.filter(arg => !INVALID_ARGS.has(arg));
+  args.push(...filteredArgs);
+
+  if (resumeSessionId) {
+    args.push('--resume', resumeSessionId);
+  }
+
+  // The CLI stops itself once the run has cost this much (an explicit --max-budget-usd wins)
+  if (maxBudgetUsd !== undefined && !filteredArgs.includes('--max-budget-usd')) {
+    args.push('--max-budget-usd', String(Math.round(maxBudgetUsd * 10000) / 10000));
+  }
+
+  // stream-json requires --verbose when combined with -p
+  if (outputFormat === 'stream-json') {
+    args.push('--output-format', 'stream-json', '--verbose');
+  }
+
+  // Add -p flag for one-time execution (non-interactive mode)
+  // This must come immediately before the task
+  args.push('-p', task);
+
+  return args;
+}
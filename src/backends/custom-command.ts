@@ -0,0 +1,154 @@
+/**
+ * Custom Command Backend
+ *
+ * Runs an arbitrary CLI agent (or a plain script, for deterministic CI runs)
+ * described by a command template such as:
+ *
+ *   aider --yes-always --message {task} {args}
+ *
+ * Placeholders are substituted per argument, never through a shell:
+ *   {task}     the task description
+ *   {cwd}      the resolved working directory
+ *   {session}  the session id being resumed (empty if none)
+ *   {args}     (as a whole argument) expands to the caller's additionalArgs
+ *
+ * Without {task} the task is appended as the last argument; without {args}
+ * the additional arguments are appended before it.
+ */
+
+import { resolveCommand } from '../claude/resolve-binary.js';
+import { StreamJsonParser } from '../claude/stream-json.js';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { classifyCommonError, spawnCommand } from './base.js';
+import type { AgentBackend, BackendCommand, BackendRunOptions, ErrorClassification, RunOutcome } from './types.js';
+
+export interface CustomCommandBackendOptions {
+  /** Backend name (default: 'custom') */
+  name?: string;
+  /** Command template, e.g. `my-agent --prompt {task}` */
+  template: string;
+  /** Human-readable description */
+  description?: string;
+  /** Whether the command emits Claude-compatible stream-json events */
+  streamJson?: boolean;
+}
+
+/**
+ * Create a backend from a command template
+ */
+export function createCustomCommandBackend(options: CustomCommandBackendOptions): AgentBackend {
+  const name = options.name ?? 'custom';
+  const tokens = parseCommandTemplate(options.template);
+
+  if (tokens.length === 0) {
+    throw new McpServerError(
+      ErrorCode.INVALID_INPUT,
+      `Custom backend "${name}" has an empty command template`
+    );
+  }
+
+  const [command, ...argTemplate] = tokens;
+
+  return {
+    name,
+    description: options.description ?? `Custom command: ${options.template}`,
+    supportsResume: argTemplate.some((token) => token.includes('{session}')),
+
+    buildCommand(runOptions: BackendRunOptions): BackendCommand {
+      const values: Record<string, string> = {
+        task: runOptions.task,
+        cwd: runOptions.cwd,
+        session: runOptions.resumeSessionId ?? '',
+      };
+
+      const args: string[] = [];
+      for (const token of argTemplate) {
+        if (token === '{args}') {
+          args.push(...runOptions.additionalArgs);
+        } else {
+          args.push(token.replace(/\{(task|cwd|session)\}/g, (_, key: string) => values[key]));
+        }
+      }
+
+      if (!argTemplate.includes('{args}')) {
+        args.push(...runOptions.additionalArgs);
+      }
+      if (!argTemplate.some((token) => token.includes('{task}'))) {
+        args.push(runOptions.task);
+      }
+
+      // Unresolvable commands are spawned as-is and fail with ENOENT (classified below)
+      const resolved = resolveCommand(command);
+      return {
+        command: resolved?.command ?? command,
+        args: [...(resolved?.prefixArgs ?? []), ...args],
+        cwd: runOptions.cwd,
+      };
+    },
+
+    spawn: spawnCommand,
+
+    createOutputParser(runOptions: BackendRunOptions) {
+      return options.streamJson && runOptions.outputFormat === 'stream-json' ? new StreamJsonParser() : null;
+    },
+
+    classifyError(outcome: RunOutcome): ErrorClassification {
+      return classifyCommonError(outcome, {
+        code: ErrorCode.AGENT_NOT_FOUND,
+        message: `Command "${command}" for backend "${name}" not found. Please ensure it is installed and in your PATH.`,
+      });
+    },
+  };
+}
+
+/**
+ * Split a command template into arguments, honoring single quotes,
+ * double quotes and backslash escapes (no other shell syntax).
+ */
+export function parseCommandTemplate(template: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < template.length) {
+        current += template[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\' && i + 1 < template.length) {
+      current += template[++i];
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new McpServerError(ErrorCode.INVALID_INPUT, `Unterminated quote in command template: ${template}`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
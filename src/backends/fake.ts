@@ -0,0 +1,124 @@
+/**
+ * Fake Backend
+ *
+ * Spawns a tiny Node.js script that behaves like a well-mannered agent CLI:
+ * it echoes the task, optionally emits Claude-compatible stream-json events
+ * (including tool calls), writes stderr, waits and exits with a chosen code.
+ * Lets tests and demos exercise the full execution path without any real
+ * agent CLI installed.
+ */
+
+import { StreamJsonParser } from '../claude/stream-json.js';
+import { ErrorCode } from '../utils/error-handler.js';
+import { classifyCommonError, spawnCommand } from './base.js';
+import type { AgentBackend, BackendCommand, BackendRunOptions, ErrorClassification, RunOutcome } from './types.js';
+
+export interface FakeToolCall {
+  name: string;
+  input?: unknown;
+  output?: string;
+  isError?: boolean;
+}
+
+export interface FakeBackendOptions {
+  /** Backend name (default: 'fake') */
+  name?: string;
+  /** Final answer; `{task}` is replaced with the task (default: 'Fake response to: {task}') */
+  response?: string;
+  /** Exit code (default: 0) */
+  exitCode?: number;
+  /** Text written to stderr */
+  stderr?: string;
+  /** Delay before producing output, in milliseconds (default: 0) */
+  delayMs?: number;
+  /** Session id reported for new sessions (default: 'fake-session') */
+  sessionId?: string;
+  /** Tool calls reported in stream-json mode */
+  toolCalls?: FakeToolCall[];
+  /** Cost reported in the stream-json result event (default: 0) */
+  costUsd?: number;
+}
+
+/**
+ * Script run by the fake agent. argv: [config JSON, task, session id, output format]
+ */
+const FAKE_AGENT_SCRIPT = `
+const [configJson, task, resumeSessionId, outputFormat] = process.argv.slice(1);
+const config = JSON.parse(configJson);
+const sessionId = resumeSessionId || config.sessionId;
+const reply = config.response.split('{task}').join(task);
+const emit = (event) => process.stdout.write(JSON.stringify({ ...event, session_id: sessionId }) + '\\n');
+setTimeout(() => {
+  if (config.stderr) process.stderr.write(config.stderr);
+  if (outputFormat === 'stream-json') {
+    emit({ type: 'system', subtype: 'init', model: 'fake-model' });
+    config.toolCalls.forEach((call, i) => {
+      const id = 'fake-tool-' + i;
+      emit({ type: 'assistant', message: { content: [{ type: 'tool_use', id, name: call.name, input: call.input || {} }] } });
+      emit({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: id, content: call.output || '', is_error: !!call.isError }] } });
+    });
+    emit({ type: 'assistant', message: { content: [{ type: 'text', text: reply }] } });
+    emit({
+      type: 'result',
+      subtype: config.exitCode === 0 ? 'success' : 'error_during_execution',
+      is_error: config.exitCode !== 0,
+      result: reply,
+      num_turns: config.toolCalls.length + 1,
+      duration_ms: config.delayMs,
+      total_cost_usd: config.costUsd,
+      usage: { input_tokens: task.length, output_tokens: reply.length },
+    });
+  } else {
+    process.stdout.write(reply + '\\n');
+  }
+  process.exitCode = config.exitCode;
+}, config.delayMs);
+`;
+
+/**
+ * Create a fake backend
+ */
+export function createFakeBackend(options: FakeBackendOptions = {}): AgentBackend {
+  const config = {
+    response: options.response ?? 'Fake response to: {task}',
+    exitCode: options.exitCode ?? 0,
+    stderr: options.stderr ?? '',
+    delayMs: options.delayMs ?? 0,
+    sessionId: options.sessionId ?? 'fake-session',
+    toolCalls: options.toolCalls ?? [],
+    costUsd: options.costUsd ?? 0,
+  };
+
+  return {
+    name: options.name ?? 'fake',
+    description: 'Fake agent for tests (no CLI required)',
+    supportsResume: true,
+
+    buildCommand(runOptions: BackendRunOptions): BackendCommand {
+      return {
+        command: process.execPath,
+        args: [
+          '-e', FAKE_AGENT_SCRIPT,
+          JSON.stringify(config),
+          runOptions.task,
+          runOptions.resumeSessionId ?? '',
+          runOptions.outputFormat,
+        ],
+        cwd: runOptions.cwd,
+      };
+    },
+
+    spawn: spawnCommand,
+
+    createOutputParser(runOptions: BackendRunOptions) {
+      return runOptions.outputFormat === 'stream-json' ? new StreamJsonParser() : null;
+    },
+
+    classifyError(outcome: RunOutcome): ErrorClassification {
+      return classifyCommonError(outcome, {
+        code: ErrorCode.AGENT_NOT_FOUND,
+        message: 'Node.js executable for the fake backend not found',
+      });
+    },
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Agent Backend Registry
+ *
+ * Built-in backends:
+ *   claude  Claude Code CLI (default)
+ *   fake    Scripted fake agent for tests
+ *   custom  Command template from CUSTOM_AGENT_COMMAND (only if set)
+ */
+
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { claudeBackend } from './claude.js';
+import { createCustomCommandBackend } from './custom-command.js';
+import { createFakeBackend } from './fake.js';
+import type { AgentBackend } from './types.js';
+
+export type { AgentBackend } from './types.js';
+export { createClaudeBackend } from './claude.js';
+export { createCustomCommandBackend } from './custom-command.js';
+export { createFakeBackend } from './fake.js';
+
+export const DEFAULT_BACKEND = 'claude';
+
+const backends: Map<string, AgentBackend> = new Map();
+
+registerBackend(claudeBackend);
+registerBackend(createFakeBackend());
+
+if (process.env.CUSTOM_AGENT_COMMAND) {
+  try {
+    registerBackend(createCustomCommandBackend({
+      template: process.env.CUSTOM_AGENT_COMMAND,
+      streamJson: process.env.CUSTOM_AGENT_STREAM_JSON === 'true',
+    }));
+  } catch (error) {
+    logger.error(`Invalid CUSTOM_AGENT_COMMAND: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Register (or replace) a backend
+ */
+export function registerBackend(backend: AgentBackend): void {
+  backends.set(backend.name, backend);
+  logger.debug(`Registered agent backend: ${backend.name}`);
+}
+
+/**
+ * Look up a backend by name (default: claude)
+ */
+export function getBackend(name: string = DEFAULT_BACKEND): AgentBackend {
+  const backend = backends.get(name);
+  if (!backend) {
+    throw new McpServerError(
+      ErrorCode.UNKNOWN_BACKEND,
+      `Unknown agent backend "${name}". Available backends: ${listBackends().map((b) => b.name).join(', ')}`,
+      { backend: name }
+    );
+  }
+  return backend;
+}
+
+/**
+ * List registered backends
+ */
+export function listBackends(): AgentBackend[] {
+  return Array.from(backends.values());
+}
@@ -0,0 +1,90 @@
+/**
+ * Agent Backend Types
+ *
+ * An agent backend knows how to run one kind of CLI coding agent:
+ * how to build its command line, spawn it, parse its output and
+ * classify its failures. The executor drives any backend the same way.
+ */
+
+import type { ChildProcess } from 'node:child_process';
+import type { OutputFormat } from '../claude/executor.js';
+import type { StreamJsonEvent, StructuredResult } from '../claude/stream-json.js';
+import type { ErrorCode } from '../utils/error-handler.js';
+
+/**
+ * Options a backend receives for a single run
+ */
+export interface BackendRunOptions {
+  /** Task description to execute */
+  task: string;
+  /** Resolved, existing working directory */
+  cwd: string;
+  /** Additional CLI arguments supplied by the caller */
+  additionalArgs: string[];
+  /** Output format requested by the caller */
+  outputFormat: OutputFormat;
+  /** Session to resume, if the backend supports it */
+  resumeSessionId?: string;
+  /** Most the run may spend in USD, for CLIs that can enforce a budget themselves */
+  maxBudgetUsd?: number;
+}
+
+/**
+ * Fully built command line for a run
+ */
+export interface BackendCommand {
+  command: string;
+  args: string[];
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Incremental output parser producing a structured result
+ */
+export interface OutputParser {
+  push(chunk: string): StreamJsonEvent[];
+  end(): StreamJsonEvent[];
+  getResult(): StructuredResult;
+}
+
+/**
+ * What the executor knows about a finished (or failed-to-start) run
+ */
+export interface RunOutcome {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  /** Error emitted by spawn (e.g. ENOENT) */
+  spawnError?: Error;
+  structured?: StructuredResult;
+}
+
+/**
+ * Classified failure
+ */
+export interface ErrorClassification {
+  code: ErrorCode;
+  message: string;
+}
+
+export interface AgentBackend {
+  /** Name used in the `backend` tool parameter */
+  readonly name: string;
+  /** Human-readable description */
+  readonly description: string;
+  /** Whether runs can be resumed by session id */
+  readonly supportsResume: boolean;
+
+  /** Build the command line for a run (an argv array - it is never passed through a shell) */
+  buildCommand(options: BackendRunOptions): BackendCommand;
+
+  /** Spawn the built command */
+  spawn(command: BackendCommand): ChildProcess;
+
+  /** Create a parser for the run's stdout, or null to keep raw text only */
+  createOutputParser(options: BackendRunOptions): OutputParser | null;
+
+  /** Classify a failed run */
+  classifyError(outcome: RunOutcome): ErrorClassification;
+}
@@ -1,14 +1,34 @@
 /**
  * Claude Code CLI Executor
  *
- * Executes tasks by spawning Claude Code as a child process.
+ * Executes tasks by spawning an agent CLI (Claude Code by default) as a child process.
+ * The CLI-specific parts live in the agent backends (see ../backends).
  */
 
-import { spawn } from 'node:child_process';
 import { existsSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { logger } from '../utils/logger.js';
 import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { getBackend, AgentBackend } from '../backends/index.js';
+import { ChangeSummary, captureSnapshot, diffSnapshots, WorkspaceSnapshot } from '../workspace/snapshot.js';
+import type { StreamJsonEvent, StructuredResult } from './stream-json.js';
+import { ExecutionEvent, OutputLines, describeStreamEvent } from './progress.js';
+import { killProcessTree } from './process-tree.js';
+import { Watchdog, WatchdogReason, WatchdogTrip, getDefaultIdleTimeout } from './watchdog.js';
+import {
+  AttemptRecord,
+  FailureClass,
+  RetryPolicy,
+  classifyFailure,
+  computeRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+} from './retry.js';
+
+/**
+ * CLI output mode: plain text, or newline-delimited JSON events
+ */
+export type OutputFormat = 'text' | 'stream-json';
 
 export interface ExecutionOptions {
   /** Task description to execute */
@@ -17,8 +37,64 @@ export interface ExecutionOptions {
   workingDirectory?: string;
   /** Timeout in milliseconds (default: 300000 = 5 minutes) */
   timeout?: number;
+  /** Kill the process after this many milliseconds without output (default: IDLE_TIMEOUT, else disabled) */
+  idleTimeout?: number;
+  /**
+   * Kill the process this many milliseconds after it prints something that looks like
+   * an interactive prompt and then goes quiet (default: 15000, 0 disables prompt detection)
+   */
+  promptTimeout?: number;
+  /** Additional patterns recognised as "waiting for input" prompts */
+  promptPatterns?: RegExp[];
   /** Additional CLI arguments for Claude Code */
   additionalArgs?: string[];
+  /** Output format requested from the CLI (default: 'text') */
+  outputFormat?: OutputFormat;
+  /** Resume an earlier session (Claude Code: --resume) */
+  resumeSessionId?: string;
+  /** Agent backend name (default: 'claude') */
+  backend?: string;
+  /** Snapshot the working directory before and after the run and report the changed files */
+  captureChanges?: boolean | ChangeCaptureOptions;
+  /** Retry transient failures (rate limits, overloads, network errors) */
+  retry?: RetryPolicy;
+  /**
+   * Budget in USD across all attempts: passed to CLIs that enforce one (Claude Code: --max-budget-usd),
+   * the process is killed once its reported running cost reaches it, and no retry starts after it is spent
+   */
+  maxCostUsd?: number;
+  /** Called when a failed attempt is about to be retried (after retryDelayMs) */
+  onRetry?: (attempt: AttemptRecord) => void;
+  /**
+   * Called whenever a child process is spawned (once per attempt), always with the same handle,
+   * which also covers retries; its pid is that of the current attempt
+   */
+  onSpawn?: (handle: ProcessHandle) => void;
+  /** Called as the run advances: attempts starting, tool calls, condensed output lines, retries */
+  onProgress?: (event: ExecutionEvent) => void;
+  /** Called with every raw output chunk as it arrives (each attempt starts its output afresh) */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  /**
+   * Aborting it cancels the run like ProcessHandle.cancel: the process tree is killed, pending retries
+   * are dropped and the execution resolves with a cancelled result
+   */
+  signal?: AbortSignal;
+}
+
+export interface ChangeCaptureOptions {
+  /** Extra ignore patterns (non-git directories only) */
+  ignore?: string[];
+  /** Also record the full unified patch (default: true) */
+  includePatch?: boolean;
+}
+
+/**
+ * Handle to a running child process, used to stop it from outside the executor
+ */
+export interface ProcessHandle {
+  pid?: number;
+  /** Kill the process tree; the execution resolves with a cancelled result */
+  cancel(): void;
 }
 
 export interface ExecutionResult {
@@ -27,18 +103,53 @@ export interface ExecutionResult {
   stderr: string;
   exitCode: number | null;
   error?: string;
+  /** Machine-readable classification of the failure */
+  errorCode?: ErrorCode;
+  /** Parsed run details (only for stream-json output) */
+  structured?: StructuredResult;
+  /** True when the run was stopped through its ProcessHandle or abort signal */
+  cancelled?: boolean;
+  /** Which watchdog guard killed the process, if any */
+  watchdog?: WatchdogReason;
+  /** Classification of the failure (set for failed, non-cancelled runs) */
+  failureClass?: FailureClass;
+  /** Every attempt, oldest first (the last one produced this result) */
+  attempts?: AttemptRecord[];
+  /** Files added, modified and deleted by the run (if captureChanges was set) */
+  changes?: ChangeSummary;
+  /** Tokens and cost reported by the CLI, summed over all attempts */
+  usage?: RunUsage;
 }
 
 /**
- * Execute a task using Claude Code CLI
+ * Token and cost accounting for a run (stream-json output only)
+ */
+export interface RunUsage {
+  /** Model reported by the last attempt */
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Error code reported for each watchdog guard
+ */
+const WATCHDOG_ERROR_CODES: Record<WatchdogReason, ErrorCode> = {
+  'timeout': ErrorCode.EXECUTION_TIMEOUT,
+  'idle': ErrorCode.EXECUTION_IDLE,
+  'stalled-on-prompt': ErrorCode.EXECUTION_STALLED_ON_PROMPT,
+};
+
+/**
+ * Execute a task using Claude Code CLI (or another agent backend)
  */
 export async function executeClaudeTask(options: ExecutionOptions): Promise<ExecutionResult> {
-  const {
-    task,
-    workingDirectory,
-    timeout = 300000,
-    additionalArgs = [],
-  } = options;
+  const { task, workingDirectory, captureChanges = false } = options;
+
+  const backend = getBackend(options.backend);
 
   logger.info(`Executing task: "${task.substring(0, 100)}${task.length > 100 ? '...' : ''}"`);
 
@@ -61,128 +172,384 @@ export async function executeClaudeTask(options: ExecutionOptions): Promise<Exec
   }
   logger.info(`Using working directory: ${cwd}`);
 
-  // Build CLI arguments (always specify working directory for claude --add-dir)
-  const { args: cliArgs, cwd: spawnCwd } = buildCliArgs(task, cwd, additionalArgs);
-  logger.debug(`Claude CLI args: ${JSON.stringify(cliArgs)}`);
+  const captureOptions: ChangeCaptureOptions = typeof captureChanges === 'object' ? captureChanges : {};
+  const before = captureChanges ? await takeSnapshot(cwd, captureOptions) : null;
+
+  if (options.signal?.aborted) {
+    logger.info('Task execution cancelled before it started');
+    return { success: false, stdout: '', stderr: '', exitCode: null, error: 'Cancelled by user', cancelled: true, attempts: [] };
+  }
+
+  const result = await runWithRetries(backend, options, cwd);
+
+  if (before) {
+    const after = await takeSnapshot(cwd, captureOptions);
+    if (after) {
+      try {
+        result.changes = await diffSnapshots(before, after, captureOptions.includePatch ?? true);
+        logger.info(`Task changed ${result.changes.files.length} file(s)`);
+      } catch (error) {
+        logger.warn(`Could not compute changes in ${cwd}: ${error}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Snapshot a directory, logging (not throwing) on failure
+ */
+async function takeSnapshot(cwd: string, options: ChangeCaptureOptions): Promise<WorkspaceSnapshot | null> {
+  try {
+    return await captureSnapshot(cwd, { ignore: options.ignore });
+  } catch (error) {
+    logger.warn(`Could not snapshot ${cwd}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Run the backend, retrying failures the retry policy considers transient.
+ * The same handle is handed to onSpawn for every attempt so cancelling also stops pending retries.
+ */
+async function runWithRetries(backend: AgentBackend, options: ExecutionOptions, cwd: string): Promise<ExecutionResult> {
+  const policy = resolveRetryPolicy(options.retry);
+  const attempts: AttemptRecord[] = [];
+  let usage: RunUsage | undefined;
+
+  let current: ProcessHandle | undefined;
+  let cancelRequested = false;
+  let wake: (() => void) | undefined;
+  let attempt = 1;
+
+  const handle: ProcessHandle = {
+    get pid() {
+      return current?.pid;
+    },
+    cancel: () => {
+      cancelRequested = true;
+      current?.cancel();
+      wake?.();
+    },
+  };
+
+  const onSpawn = (processHandle: ProcessHandle) => {
+    current = processHandle;
+    options.onProgress?.({ type: 'started', attempt, pid: processHandle.pid });
+    options.onSpawn?.(handle);
+    if (cancelRequested) {
+      processHandle.cancel();
+    }
+  };
+
+  // Aborting the signal cancels the run like the handle does
+  const onAbort = () => handle.cancel();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    for (; ; attempt++) {
+      const startedAt = new Date();
+      const result = await runBackend(backend, { ...options, onSpawn }, cwd, usage?.costUsd ?? 0);
+      current = undefined;
+
+      if (!result.success && !result.cancelled) {
+        result.failureClass = classifyFailure({ ...result, cliErrors: result.structured?.errors });
+      }
+
+      const record: AttemptRecord = {
+        attempt,
+        startedAt,
+        completedAt: new Date(),
+        success: result.success,
+        exitCode: result.exitCode,
+        error: result.error,
+        errorCode: result.errorCode,
+        failureClass: result.failureClass,
+        costUsd: result.structured?.costUsd,
+      };
+      attempts.push(record);
+      result.attempts = attempts;
+      usage = addUsage(usage, result.structured);
+      result.usage = usage;
+
+      const retry = !result.success && !result.cancelled && !cancelRequested &&
+        attempt < policy.maxAttempts && isRetryable(policy, result.failureClass!);
+      if (!retry) {
+        return result;
+      }
+
+      if (options.maxCostUsd !== undefined && usage && usage.costUsd >= options.maxCostUsd) {
+        logger.warn(`Not retrying: spent $${usage.costUsd.toFixed(4)} of the $${options.maxCostUsd} task budget`);
+        return {
+          ...result,
+          error: `${result.error ?? 'Execution failed'}; not retried because the task spent ` +
+            `$${usage.costUsd.toFixed(4)} of its $${options.maxCostUsd} budget`,
+          errorCode: ErrorCode.BUDGET_EXCEEDED,
+        };
+      }
+
+      record.retryDelayMs = computeRetryDelay(policy, attempt);
+      logger.warn(
+        `Attempt ${attempt}/${policy.maxAttempts} failed (${result.failureClass}); retrying in ${record.retryDelayMs}ms`
+      );
+      options.onRetry?.(record);
+      options.onProgress?.({ type: 'retrying', attempt, delayMs: record.retryDelayMs, failureClass: result.failureClass });
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, record.retryDelayMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = undefined;
+
+      if (cancelRequested) {
+        logger.info('Task execution cancelled by user during retry backoff');
+        return { ...result, success: false, error: 'Cancelled by user', errorCode: undefined, failureClass: undefined, cancelled: true };
+      }
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Add the usage reported by one attempt to the running total
+ */
+function addUsage(total: RunUsage | undefined, structured: StructuredResult | undefined): RunUsage | undefined {
+  if (!structured || (structured.usage === undefined && structured.costUsd === undefined)) {
+    return total;
+  }
+
+  return {
+    model: structured.model ?? total?.model,
+    inputTokens: (total?.inputTokens ?? 0) + (structured.usage?.inputTokens ?? 0),
+    outputTokens: (total?.outputTokens ?? 0) + (structured.usage?.outputTokens ?? 0),
+    cacheCreationInputTokens: (total?.cacheCreationInputTokens ?? 0) + (structured.usage?.cacheCreationInputTokens ?? 0),
+    cacheReadInputTokens: (total?.cacheReadInputTokens ?? 0) + (structured.usage?.cacheReadInputTokens ?? 0),
+    costUsd: (total?.costUsd ?? 0) + (structured.costUsd ?? 0),
+  };
+}
+
+/**
+ * Spawn the backend and collect its output until it exits.
+ * `spentUsd` is what earlier attempts cost; the rest of maxCostUsd is this attempt's budget.
+ */
+function runBackend(
+  backend: AgentBackend,
+  options: ExecutionOptions,
+  cwd: string,
+  spentUsd: number
+): Promise<ExecutionResult> {
+  const {
+    task,
+    timeout = 300000,
+    idleTimeout = getDefaultIdleTimeout(),
+    promptTimeout,
+    promptPatterns,
+    additionalArgs = [],
+    outputFormat = 'text',
+    resumeSessionId,
+    onSpawn,
+    onProgress,
+    onOutput,
+  } = options;
+
+  const budgetUsd = options.maxCostUsd === undefined ? undefined : Math.max(0, options.maxCostUsd - spentUsd);
+  const runOptions = { task, cwd, additionalArgs, outputFormat, resumeSessionId, maxBudgetUsd: budgetUsd };
+  const command = backend.buildCommand(runOptions);
+  logger.debug(`${backend.name} command: ${command.command} ${JSON.stringify(command.args)}`);
 
   // Spawn the process
-  const claude = spawn('claude', cliArgs, {
-    cwd: spawnCwd,
-    env: process.env,
-    stdio: ['ignore', 'pipe', 'pipe'],
-    shell: true, // Use shell to find 'claude' in PATH
-  });
+  const child = backend.spawn(command);
 
   let stdout = '';
   let stderr = '';
-  let timedOut = false;
+  let tripped: WatchdogTrip | undefined;
+  let cancelled = false;
+  let overBudget = false;
+  let settled = false;
+  const parser = backend.createOutputParser(runOptions);
+  const stdoutLines = new OutputLines();
+  const stderrLines = new OutputLines();
+  const reportLines = (source: 'stdout' | 'stderr', lines: string[]) => {
+    for (const line of lines) {
+      onProgress?.({ type: 'output', source, line });
+    }
+  };
+  const reportStreamEvent = (event: StreamJsonEvent) => {
+    for (const progress of describeStreamEvent(event)) {
+      onProgress?.(progress);
+    }
+  };
+
+  // Hard timeout, inactivity timeout and prompt detection
+  const watchdog = new Watchdog({ timeout, idleTimeout, promptTimeout, promptPatterns }, (trip) => {
+    logger.warn(`Watchdog (${trip.reason}): ${trip.message}; terminating process...`);
+    tripped = trip;
+    killProcessTree(child);
+  });
 
-  // Set timeout
-  const timeoutHandle = setTimeout(() => {
-    logger.warn(`Task timeout after ${timeout}ms, terminating process...`);
-    timedOut = true;
-    claude.kill('SIGTERM');
-  }, timeout);
+  // Stop the run as soon as the cost it reports reaches its budget (the final result only reports, it is too late to stop)
+  const checkBudget = (event: StreamJsonEvent) => {
+    const cost = parser?.getResult().costUsd;
+    if (budgetUsd === undefined || cost === undefined || cost < budgetUsd || event.type === 'result' ||
+      overBudget || cancelled || tripped) {
+      return;
+    }
+    logger.warn(`Run has cost $${cost.toFixed(4)}, reaching its $${budgetUsd.toFixed(4)} budget; terminating process...`);
+    overBudget = true;
+    watchdog.stop();
+    killProcessTree(child);
+  };
+
+  onSpawn?.({
+    pid: child.pid,
+    cancel: () => {
+      if (cancelled || child.exitCode !== null || child.signalCode !== null) {
+        return;
+      }
+      logger.warn(`Cancelling process ${child.pid}...`);
+      cancelled = true;
+      watchdog.stop();
+      killProcessTree(child);
+    },
+  });
+
+  // Decode as UTF-8 across chunk boundaries (a character split between two chunks would become U+FFFD)
+  child.stdout?.setEncoding('utf8');
+  child.stderr?.setEncoding('utf8');
 
   // Collect stdout
-  claude.stdout?.on('data', (data) => {
-    const chunk = data.toString();
+  child.stdout?.on('data', (chunk: string) => {
     stdout += chunk;
+    onOutput?.(chunk, 'stdout');
+    watchdog.activity(chunk, 'stdout');
     logger.debug(`stdout: ${chunk.substring(0, 200)}`);
+
+    if (!parser) {
+      reportLines('stdout', stdoutLines.push(chunk));
+    }
+    for (const event of parser?.push(chunk) ?? []) {
+      logger.debug(`stream event: ${event.type}${event.subtype ? `/${event.subtype}` : ''}`);
+      reportStreamEvent(event);
+      checkBudget(event);
+    }
   });
 
   // Collect stderr
-  claude.stderr?.on('data', (data) => {
-    const chunk = data.toString();
+  child.stderr?.on('data', (chunk: string) => {
     stderr += chunk;
+    onOutput?.(chunk, 'stderr');
+    watchdog.activity(chunk, 'stderr');
     logger.debug(`stderr: ${chunk.substring(0, 200)}`);
+    reportLines('stderr', stderrLines.push(chunk));
   });
 
   // Wait for process to exit
   return new Promise<ExecutionResult>((resolve) => {
-    claude.on('close', (code) => {
-      clearTimeout(timeoutHandle);
+    child.on('close', (code) => {
+      watchdog.stop();
+      if (settled) {
+        return;
+      }
+      settled = true;
 
-      if (timedOut) {
-        logger.error('Task execution timed out');
+      parser?.end().forEach(reportStreamEvent);
+      if (!parser) {
+        reportLines('stdout', stdoutLines.end());
+      }
+      reportLines('stderr', stderrLines.end());
+      const structured = parser?.getResult();
+
+      if (cancelled) {
+        logger.info('Task execution cancelled by user');
         resolve({
           success: false,
           stdout,
           stderr,
           exitCode: code,
-          error: `Execution timed out after ${timeout}ms`,
+          error: 'Cancelled by user',
+          structured,
+          cancelled: true,
         });
         return;
       }
 
-      const success = code === 0;
+      if (tripped) {
+        logger.error(`Task execution stopped by watchdog: ${tripped.reason}`);
+        resolve({
+          success: false,
+          stdout,
+          stderr,
+          exitCode: code,
+          error: tripped.message,
+          errorCode: WATCHDOG_ERROR_CODES[tripped.reason],
+          structured,
+          watchdog: tripped.reason,
+        });
+        return;
+      }
+
+      if (overBudget) {
+        const spent = spentUsd + (structured?.costUsd ?? 0);
+        resolve({
+          success: false,
+          stdout,
+          stderr,
+          exitCode: code,
+          error: `Stopped after spending $${spent.toFixed(4)} of the $${options.maxCostUsd} task budget`,
+          errorCode: ErrorCode.BUDGET_EXCEEDED,
+          structured,
+        });
+        return;
+      }
+
+      // In stream-json mode the CLI can exit 0 while reporting an error result
+      const success = code === 0 && !structured?.isError;
       logger.info(`Task completed with exit code: ${code}`);
 
+      if (success) {
+        resolve({
+          success,
+          stdout,
+          stderr,
+          exitCode: code,
+          structured,
+        });
+        return;
+      }
+
+      const classification = backend.classifyError({ exitCode: code, stdout, stderr, structured });
       resolve({
         success,
         stdout,
         stderr,
         exitCode: code,
+        error: classification.message,
+        errorCode: classification.code,
+        structured,
       });
     });
 
-    claude.on('error', (error) => {
-      clearTimeout(timeoutHandle);
-
-      // Check if Claude Code is not found
-      if (error.message.includes('ENOENT') || error.message.includes('not found')) {
-        logger.error('Claude Code CLI not found');
-        resolve({
-          success: false,
-          stdout: '',
-          stderr: '',
-          exitCode: null,
-          error: 'Claude Code CLI not found. Please ensure Claude Code is installed and in your PATH.',
-        });
+    child.on('error', (error) => {
+      watchdog.stop();
+      if (settled) {
         return;
       }
+      settled = true;
 
-      logger.error(`Process error: ${error.message}`);
+      const classification = backend.classifyError({ exitCode: null, stdout, stderr, spawnError: error });
+      logger.error(`Process error: ${classification.message}`);
       resolve({
         success: false,
         stdout,
         stderr,
         exitCode: null,
-        error: error.message,
+        error: classification.message,
+        errorCode: classification.code,
       });
     });
   });
 }
-
-/**
- * Build CLI arguments for Claude Code
- */
-function buildCliArgs(
-  task: string,
-  workingDirectory: string, // Now required - caller must provide default
-  additionalArgs: string[] = []
-): { args: string[]; cwd: string } {
-  const args: string[] = [];
-
-  // Always add working directory to allowed directories
-  args.push('--add-dir', workingDirectory);
-
-  // Filter out invalid arguments for claude CLI (npx/npm flags that might be passed through)
-  const invalidArgs = new Set([
-    '-p', '--print',
-    '-y', '--yes',
-    '-n', '--no', '--no-yes',
-    '--cache',
-    '--ignore-existing',
-  ]);
-
-  const filteredArgs = additionalArgs.filter(arg => !invalidArgs.has(arg));
-  args.push(...filteredArgs);
-
-  // Add -p flag for one-time execution (non-interactive mode)
-  // This must come immediately before the task
-  args.push('-p', task);
-
-  // Return both args and cwd - the working directory will be used as spawn's cwd
-  return { args, cwd: workingDirectory };
-}
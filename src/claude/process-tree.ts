@@ -0,0 +1,181 @@
+/**
+ * Process tree termination helpers
+ *
+ * Child processes are spawned as process-group leaders (POSIX) so that the
+ * whole tree - including anything the CLI itself spawned - can be signalled.
+ */
+
+import { execFileSync, spawn, ChildProcess } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { logger } from '../utils/logger.js';
+
+/** Grace period between SIGTERM and SIGKILL (default: 5 seconds) */
+export const DEFAULT_KILL_GRACE_MS = 5000;
+
+/**
+ * Whether children should be spawned detached (as their own process group)
+ */
+export const SPAWN_DETACHED = process.platform !== 'win32';
+
+/** Agent processes started by this server that have not exited yet */
+const liveProcesses = new Set<ChildProcess>();
+
+/**
+ * Remember a spawned agent so it can be stopped when the server shuts down.
+ * Detached process groups would otherwise outlive the server.
+ */
+export function trackProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  liveProcesses.add(child);
+  child.once('exit', () => liveProcesses.delete(child));
+}
+
+/**
+ * Terminate every agent process tree this server started that is still running.
+ * Waits up to `graceMs` for them to exit after SIGTERM, then sends SIGKILL to what is left.
+ */
+export async function killAllProcessTrees(graceMs: number = DEFAULT_KILL_GRACE_MS): Promise<void> {
+  const children = [...liveProcesses];
+  if (children.length === 0) {
+    return;
+  }
+  logger.info(`Stopping ${children.length} agent process tree(s)...`);
+
+  const exited = children.map((child) => new Promise<void>((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolve();
+    } else {
+      child.once('exit', () => resolve());
+    }
+  }));
+  for (const child of children) {
+    killProcessTree(child, graceMs);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.all(exited),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, graceMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  // The escalation timers would not fire once the server exits, and descendants may outlive their leader
+  if (SPAWN_DETACHED) {
+    for (const child of children) {
+      signalGroup(child.pid!, 'SIGKILL');
+    }
+  }
+}
+
+/**
+ * Terminate a child process and all of its descendants.
+ *
+ * Sends SIGTERM to the process group first, then SIGKILL after `graceMs`
+ * if anything in the group is still alive.
+ */
+export function killProcessTree(child: ChildProcess, graceMs: number = DEFAULT_KILL_GRACE_MS): void {
+  const pid = child.pid;
+  if (pid === undefined) {
+    return;
+  }
+  killProcessGroup(pid, graceMs, () => child.kill());
+}
+
+/**
+ * Something that tells a process apart from a later one that reuses its pid: its start time
+ * (on Linux, with the id of the boot it started in). Undefined if it cannot be determined.
+ */
+export function getProcessIdentity(pid: number): string | undefined {
+  if (process.platform === 'win32') {
+    return undefined;
+  }
+
+  try {
+    if (process.platform === 'linux') {
+      const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+      // Fields after the parenthesised command name start at field 3; field 22 is the start time
+      const startTime = stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19];
+      const bootId = readFileSync('/proc/sys/kernel/random/boot_id', 'utf8').trim();
+      return startTime ? `${bootId}:${startTime}` : undefined;
+    }
+
+    const started = execFileSync('ps', ['-o', 'lstart=', '-p', String(pid)], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    return started || undefined;
+  } catch {
+    // Not running (or not visible to us)
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a process tree started by an earlier server instance is still alive
+ */
+export function isProcessTreeAlive(pid: number): boolean {
+  try {
+    // POSIX: the child led its own process group, so probe the group
+    process.kill(process.platform === 'win32' ? pid : -pid, 0);
+    return true;
+  } catch {
+    // EPERM means it exists but belongs to someone else - not ours to kill
+    return false;
+  }
+}
+
+/**
+ * Terminate an orphaned process tree left behind by an earlier server instance
+ */
+export function killOrphanedProcessTree(pid: number, graceMs: number = DEFAULT_KILL_GRACE_MS): void {
+  killProcessGroup(pid, graceMs, () => {
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch {
+      // Already gone
+    }
+  });
+}
+
+function killProcessGroup(pid: number, graceMs: number, fallback: () => void): void {
+  if (process.platform === 'win32') {
+    // taskkill /T walks the tree; /F is required for console processes
+    const killer = spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    killer.on('error', (error) => {
+      logger.warn(`taskkill failed for pid ${pid}: ${error.message}`);
+      fallback();
+    });
+    return;
+  }
+
+  if (!signalGroup(pid, 'SIGTERM')) {
+    return;
+  }
+
+  const escalation = setTimeout(() => {
+    // The leader may be gone while grandchildren linger, so signal the group regardless
+    if (signalGroup(pid, 'SIGKILL')) {
+      logger.warn(`Process group ${pid} did not exit after SIGTERM, sent SIGKILL`);
+    }
+  }, graceMs);
+  escalation.unref();
+}
+
+/**
+ * Send a signal to a process group. Returns false if the group no longer exists.
+ */
+function signalGroup(pid: number, signal: NodeJS.Signals): boolean {
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+      logger.warn(`Failed to send ${signal} to process group ${pid}: ${error}`);
+    }
+    return false;
+  }
+}
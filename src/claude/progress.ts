@@ -0,0 +1,126 @@
+/**
+ * Execution Progress Events
+ *
+ * What a run is doing while it runs: attempts starting, the tools the agent
+ * uses, condensed output lines and retries. The executor reports these through
+ * `ExecutionOptions.onProgress`; callers forward them to MCP clients (progress
+ * and logging notifications) or keep them with background tasks.
+ */
+
+import type { FailureClass } from './retry.js';
+import { getContentBlocks, StreamJsonEvent } from './stream-json.js';
+
+export type OutputSource = 'stdout' | 'stderr' | 'assistant';
+
+export type ExecutionEvent =
+  /** A process was spawned for an attempt */
+  | { type: 'started'; attempt: number; pid?: number }
+  /** The agent called a tool (stream-json only) */
+  | { type: 'tool'; name: string; detail?: string }
+  /** A condensed output line: raw stdout/stderr, or assistant text in stream-json mode */
+  | { type: 'output'; source: OutputSource; line: string }
+  /** A failed attempt will be retried after the delay */
+  | { type: 'retrying'; attempt: number; delayMs: number; failureClass?: FailureClass };
+
+/** Longest output line passed on; the rest is cut */
+const MAX_LINE_LENGTH = 200;
+
+/** Most lines passed on per chunk or message, so a burst of output cannot flood the client */
+const MAX_LINES_PER_CHUNK = 5;
+
+/** Tool input fields that say best what a tool call does, in order of preference */
+const TOOL_DETAIL_FIELDS = ['command', 'file_path', 'path', 'pattern', 'url', 'query', 'description', 'prompt'];
+
+/**
+ * Splits output chunks into condensed lines, buffering partial lines
+ */
+export class OutputLines {
+  private buffer = '';
+
+  /**
+   * Consume a chunk and return the complete lines in it
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return condenseLines(lines);
+  }
+
+  /**
+   * Return the buffered partial line, if any
+   */
+  end(): string[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return condenseLines([rest]);
+  }
+}
+
+/**
+ * Progress events carried by a stream-json event
+ */
+export function describeStreamEvent(event: StreamJsonEvent): ExecutionEvent[] {
+  if (event.type !== 'assistant') {
+    return [];
+  }
+
+  const events: ExecutionEvent[] = [];
+  for (const block of getContentBlocks(event)) {
+    if (block.type === 'tool_use' && block.name) {
+      events.push({ type: 'tool', name: block.name, detail: describeToolInput(block.input) });
+    } else if (block.type === 'text' && block.text) {
+      for (const line of condenseLines(block.text.split('\n'))) {
+        events.push({ type: 'output', source: 'assistant', line });
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * One-line description of a progress event
+ */
+export function formatExecutionEvent(event: ExecutionEvent): string {
+  switch (event.type) {
+    case 'started':
+      return event.attempt > 1 ? `Attempt ${event.attempt} started` : 'Started';
+    case 'tool':
+      return event.detail ? `${event.name}: ${event.detail}` : event.name;
+    case 'output':
+      return event.line;
+    case 'retrying':
+      return `Attempt ${event.attempt} failed${event.failureClass ? ` (${event.failureClass})` : ''}; ` +
+        `retrying in ${(event.delayMs / 1000).toFixed(1)}s`;
+  }
+}
+
+/**
+ * Drop blank lines, collapse whitespace and shorten long lines
+ */
+function condenseLines(lines: string[]): string[] {
+  const condensed = lines.map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const kept = condensed.slice(0, MAX_LINES_PER_CHUNK).map((line) => shorten(line, MAX_LINE_LENGTH));
+  if (condensed.length > MAX_LINES_PER_CHUNK) {
+    kept.push(`... (${condensed.length - MAX_LINES_PER_CHUNK} more lines)`);
+  }
+  return kept;
+}
+
+function describeToolInput(input: unknown): string | undefined {
+  if (!input || typeof input !== 'object') {
+    return undefined;
+  }
+  const fields = input as Record<string, unknown>;
+  for (const field of TOOL_DETAIL_FIELDS) {
+    const value = fields[field];
+    if (typeof value === 'string' && value.trim()) {
+      return shorten(value.replace(/\s+/g, ' ').trim(), 80);
+    }
+  }
+  return undefined;
+}
+
+function shorten(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 3)}...` : text;
+}
@@ -0,0 +1,149 @@
+/**
+ * Executable Resolution
+ *
+ * Locates agent CLIs ourselves so they can be spawned with an argv array and
+ * no shell - the task text must never be interpreted by a host shell.
+ */
+
+import { accessSync, constants, existsSync, readFileSync, statSync } from 'node:fs';
+import { delimiter, dirname, extname, isAbsolute, join, resolve } from 'node:path';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+
+/**
+ * How to launch a resolved executable
+ */
+export interface ResolvedCommand {
+  /** Executable to spawn */
+  command: string;
+  /** Arguments that must precede the caller's arguments (e.g. the script of a .cmd shim) */
+  prefixArgs: string[];
+}
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Resolve the Claude Code CLI: `override` (config), then CLAUDE_BIN, then `claude` on PATH
+ */
+export function resolveClaudeBinary(override?: string): ResolvedCommand {
+  const requested = override || process.env.CLAUDE_BIN || 'claude';
+  const resolved = resolveExecutable(requested);
+
+  if (!resolved) {
+    throw new McpServerError(
+      ErrorCode.CLAUDE_NOT_FOUND,
+      override || process.env.CLAUDE_BIN
+        ? `Claude Code CLI not found at "${requested}" (from ${override ? 'configuration' : 'CLAUDE_BIN'}).`
+        : 'Claude Code CLI not found. Please ensure Claude Code is installed and in your PATH, or set CLAUDE_BIN.',
+      { binary: requested }
+    );
+  }
+
+  return toSpawnableCommand(resolved, ErrorCode.CLAUDE_NOT_FOUND);
+}
+
+/**
+ * Resolve any command name or path to a spawnable command, or null if not found
+ */
+export function resolveCommand(name: string): ResolvedCommand | null {
+  const resolved = resolveExecutable(name);
+  return resolved ? toSpawnableCommand(resolved, ErrorCode.AGENT_NOT_FOUND) : null;
+}
+
+/**
+ * Find an executable by path or by searching PATH (honoring PATHEXT on Windows)
+ */
+export function resolveExecutable(name: string, env: NodeJS.ProcessEnv = process.env): string | null {
+  const extensions = isWindows
+    ? ['', ...(env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)]
+    : [''];
+
+  // Explicit paths are not looked up on PATH
+  if (isAbsolute(name) || name.includes('/') || (isWindows && name.includes('\\'))) {
+    return findWithExtensions(resolve(name), extensions);
+  }
+
+  const pathValue = env.PATH ?? env.Path ?? '';
+  for (const dir of pathValue.split(delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    const found = findWithExtensions(join(dir.replace(/^"(.*)"$/, '$1'), name), extensions);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+function findWithExtensions(base: string, extensions: string[]): string | null {
+  for (const ext of extensions) {
+    if (isExecutableFile(base + ext)) {
+      return base + ext;
+    }
+  }
+  return null;
+}
+
+function isExecutableFile(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) {
+      return false;
+    }
+    if (!isWindows) {
+      accessSync(path, constants.X_OK);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Batch files cannot be spawned without a shell, so unwrap npm-style
+ * `.cmd` shims to the script they launch and run that with Node directly.
+ */
+function toSpawnableCommand(executable: string, notFoundCode: ErrorCode): ResolvedCommand {
+  const ext = extname(executable).toLowerCase();
+
+  if (ext === '.js' || ext === '.mjs' || ext === '.cjs') {
+    return { command: process.execPath, prefixArgs: [executable] };
+  }
+
+  if (ext !== '.cmd' && ext !== '.bat') {
+    return { command: executable, prefixArgs: [] };
+  }
+
+  const target = parseCmdShim(executable);
+  if (!target) {
+    throw new McpServerError(
+      notFoundCode,
+      `Cannot run "${executable}" without a shell: it is not a recognised npm shim. ` +
+      'Point the configuration at the underlying .exe or .js file instead.',
+      { binary: executable }
+    );
+  }
+
+  return toSpawnableCommand(target, notFoundCode);
+}
+
+/**
+ * Extract the target of an npm cmd-shim, e.g.
+ *   "%_prog%"  "%dp0%\node_modules\@anthropic-ai\claude-code\cli.js" %*
+ */
+export function parseCmdShim(shimPath: string): string | null {
+  let contents: string;
+  try {
+    contents = readFileSync(shimPath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const match = /"%~?dp0%\\?([^"]+)"\s+%\*/.exec(contents);
+  if (!match) {
+    return null;
+  }
+
+  const target = join(dirname(shimPath), match[1].replace(/\\/g, '/'));
+  return existsSync(target) ? target : null;
+}
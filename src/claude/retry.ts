@@ -0,0 +1,157 @@
+/**
+ * Retry Policy
+ *
+ * Classifies failed runs into failure classes (rate limits, overloads, network
+ * errors, auth problems, ...) and decides whether and when to try again.
+ */
+
+import { ErrorCode } from '../utils/error-handler.js';
+
+/**
+ * Why a run failed
+ */
+export type FailureClass =
+  | 'rate_limited'
+  | 'overloaded'
+  | 'network'
+  | 'timeout'
+  | 'idle'
+  | 'stalled_on_prompt'
+  | 'auth'
+  | 'not_found'
+  | 'error';
+
+export const FAILURE_CLASSES: readonly FailureClass[] = [
+  'rate_limited',
+  'overloaded',
+  'network',
+  'timeout',
+  'idle',
+  'stalled_on_prompt',
+  'auth',
+  'not_found',
+  'error',
+];
+
+/** Failure classes retried unless a policy says otherwise */
+export const TRANSIENT_FAILURES: readonly FailureClass[] = ['rate_limited', 'overloaded', 'network'];
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first (default: 1 = no retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 2000) */
+  initialDelayMs?: number;
+  /** Upper bound for any delay in milliseconds (default: 60000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Random spread applied to each delay, 0-1 (default: 0.2 = ±20%) */
+  jitter?: number;
+  /** Failure classes worth retrying (default: rate_limited, overloaded, network) */
+  retryOn?: FailureClass[];
+}
+
+/**
+ * One run of a task
+ */
+export interface AttemptRecord {
+  /** 1-based attempt number */
+  attempt: number;
+  startedAt: Date;
+  completedAt: Date;
+  success: boolean;
+  exitCode: number | null;
+  error?: string;
+  errorCode?: ErrorCode;
+  failureClass?: FailureClass;
+  /** Cost reported by the CLI for this attempt (USD) */
+  costUsd?: number;
+  /** Wait before the next attempt (set when this attempt is retried) */
+  retryDelayMs?: number;
+}
+
+/**
+ * What classifyFailure looks at. Never stdout: in stream-json mode it is mostly
+ * tool output, where a test log mentioning ECONNREFUSED or 503 is not a reason to retry.
+ */
+export interface FailedRun {
+  stderr: string;
+  error?: string;
+  errorCode?: ErrorCode;
+  /** Errors the CLI reported in its error events and error result */
+  cliErrors?: string[];
+}
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  retryOn: [...TRANSIENT_FAILURES],
+};
+
+/**
+ * Text patterns for failures the CLI only reports as text, checked in order
+ */
+const OUTPUT_PATTERNS: Array<[FailureClass, RegExp]> = [
+  ['rate_limited', /rate[ _-]?limit|too many requests|\b429\b|usage limit/i],
+  ['overloaded', /overloaded|\b529\b|\b503\b|service unavailable/i],
+  ['auth', /invalid api key|unauthori[sz]ed|\b401\b|authentication (failed|error)|not logged in|please run \/login|oauth token (has )?expired/i],
+  ['network', /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network error|fetch failed|connection (error|reset|refused)/],
+];
+
+/**
+ * Fill in the defaults of a retry policy
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_POLICY.maxAttempts)),
+    initialDelayMs: policy.initialDelayMs ?? DEFAULT_POLICY.initialDelayMs,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_POLICY.maxDelayMs,
+    backoffMultiplier: policy.backoffMultiplier ?? DEFAULT_POLICY.backoffMultiplier,
+    jitter: Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_POLICY.jitter)),
+    retryOn: policy.retryOn ?? DEFAULT_POLICY.retryOn,
+  };
+}
+
+/**
+ * Classify a failed run from its error code, then from its stderr and the errors the CLI reported
+ */
+export function classifyFailure(run: FailedRun): FailureClass {
+  switch (run.errorCode) {
+    case ErrorCode.EXECUTION_TIMEOUT:
+      return 'timeout';
+    case ErrorCode.EXECUTION_IDLE:
+      return 'idle';
+    case ErrorCode.EXECUTION_STALLED_ON_PROMPT:
+      return 'stalled_on_prompt';
+    case ErrorCode.CLAUDE_NOT_FOUND:
+    case ErrorCode.AGENT_NOT_FOUND:
+      return 'not_found';
+  }
+
+  const text = [run.stderr, run.error ?? '', ...(run.cliErrors ?? [])].join('\n');
+  for (const [failureClass, pattern] of OUTPUT_PATTERNS) {
+    if (pattern.test(text)) {
+      return failureClass;
+    }
+  }
+  return 'error';
+}
+
+/**
+ * Whether a failure class is retried under a policy
+ */
+export function isRetryable(policy: Required<RetryPolicy>, failureClass: FailureClass): boolean {
+  return policy.retryOn.includes(failureClass);
+}
+
+/**
+ * Delay before retrying after the given (1-based) attempt: exponential backoff with jitter
+ */
+export function computeRetryDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+  const spread = base * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(Math.min(policy.maxDelayMs, base + spread)));
+}
@@ -0,0 +1,294 @@
+/**
+ * Claude Code stream-json Parser
+ *
+ * Incrementally parses the newline-delimited JSON events emitted by
+ * `claude -p --output-format stream-json --verbose` into a structured result.
+ */
+
+import { logger } from '../utils/logger.js';
+
+/**
+ * A single tool call made by Claude during the run
+ */
+export interface ToolInvocation {
+  /** Tool use id assigned by the model */
+  id: string;
+  /** Tool name (Read, Edit, Bash, ...) */
+  name: string;
+  /** Input passed to the tool */
+  input: unknown;
+  /** Outcome reported by the matching tool_result event */
+  status: 'pending' | 'success' | 'error';
+  /** Tool result content, flattened to text */
+  output?: string;
+}
+
+/**
+ * Token usage reported by the CLI
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Structured view of a stream-json run
+ */
+export interface StructuredResult {
+  /** Final assistant answer (from the result event, or the last assistant text) */
+  finalMessage?: string;
+  /** Every assistant text block in order */
+  assistantMessages: string[];
+  /** Tool calls in the order they were made */
+  toolInvocations: ToolInvocation[];
+  sessionId?: string;
+  model?: string;
+  numTurns?: number;
+  durationMs?: number;
+  durationApiMs?: number;
+  costUsd?: number;
+  usage?: TokenUsage;
+  /** True when the CLI reported the run itself as an error */
+  isError?: boolean;
+  /** Result subtype (success, error_max_turns, error_during_execution, ...) */
+  subtype?: string;
+  /** Errors the CLI reported itself (error events and error results), never tool output */
+  errors?: string[];
+}
+
+/**
+ * Raw event as emitted by the CLI. Only the fields we use are typed.
+ */
+export interface StreamJsonEvent {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  [key: string]: unknown;
+}
+
+export interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * Incremental parser for stream-json output.
+ *
+ * Feed stdout chunks with `push()`; complete lines are parsed as they arrive,
+ * partial lines are buffered until the next chunk or `end()`.
+ */
+export class StreamJsonParser {
+  private buffer = '';
+  private result: StructuredResult = {
+    assistantMessages: [],
+    toolInvocations: [],
+  };
+  private toolIndex: Map<string, ToolInvocation> = new Map();
+
+  /**
+   * Consume a stdout chunk and return the events parsed from it
+   */
+  push(chunk: string): StreamJsonEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return this.parseLines(lines);
+  }
+
+  /**
+   * Flush any buffered partial line
+   */
+  end(): StreamJsonEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseLines([rest]);
+  }
+
+  /**
+   * Get the structured result accumulated so far
+   */
+  getResult(): StructuredResult {
+    const result = { ...this.result };
+    if (result.finalMessage === undefined && result.assistantMessages.length > 0) {
+      result.finalMessage = result.assistantMessages[result.assistantMessages.length - 1];
+    }
+    return result;
+  }
+
+  private parseLines(lines: string[]): StreamJsonEvent[] {
+    const events: StreamJsonEvent[] = [];
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      let event: StreamJsonEvent;
+      try {
+        event = JSON.parse(trimmed);
+      } catch {
+        logger.debug(`Ignoring non-JSON stream line: ${trimmed.substring(0, 200)}`);
+        continue;
+      }
+
+      if (!event || typeof event !== 'object' || typeof event.type !== 'string') {
+        continue;
+      }
+
+      this.handleEvent(event);
+      events.push(event);
+    }
+
+    return events;
+  }
+
+  private handleEvent(event: StreamJsonEvent): void {
+    if (typeof event.session_id === 'string') {
+      this.result.sessionId = event.session_id;
+    }
+
+    // The running total: Claude Code reports it in the result event, other CLIs may report it as they go.
+    // Older CLI versions report `cost_usd`, newer ones `total_cost_usd`
+    const cost = event.total_cost_usd ?? event.cost_usd;
+    if (typeof cost === 'number') {
+      this.result.costUsd = cost;
+    }
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype === 'init' && typeof event.model === 'string') {
+          this.result.model = event.model;
+        }
+        break;
+
+      case 'assistant':
+        for (const block of getContentBlocks(event)) {
+          if (block.type === 'text' && block.text) {
+            this.result.assistantMessages.push(block.text);
+          } else if (block.type === 'tool_use' && block.id && block.name) {
+            const invocation: ToolInvocation = {
+              id: block.id,
+              name: block.name,
+              input: block.input,
+              status: 'pending',
+            };
+            this.result.toolInvocations.push(invocation);
+            this.toolIndex.set(block.id, invocation);
+          }
+        }
+        break;
+
+      case 'user':
+        for (const block of getContentBlocks(event)) {
+          if (block.type !== 'tool_result' || !block.tool_use_id) {
+            continue;
+          }
+          const invocation = this.toolIndex.get(block.tool_use_id);
+          if (invocation) {
+            invocation.status = block.is_error ? 'error' : 'success';
+            invocation.output = flattenContent(block.content);
+          }
+        }
+        break;
+
+      case 'result':
+        this.handleResultEvent(event);
+        break;
+
+      case 'error':
+        this.addError(event.error ?? event.message);
+        break;
+    }
+  }
+
+  private addError(value: unknown): void {
+    const message = typeof value === 'string'
+      ? value
+      : value && typeof value === 'object' && typeof (value as { message?: unknown }).message === 'string'
+        ? (value as { message: string }).message
+        : undefined;
+    if (message) {
+      (this.result.errors ??= []).push(message);
+    }
+  }
+
+  private handleResultEvent(event: StreamJsonEvent): void {
+    this.result.subtype = event.subtype;
+    if (typeof event.result === 'string') {
+      this.result.finalMessage = event.result;
+    }
+    if (typeof event.is_error === 'boolean') {
+      this.result.isError = event.is_error;
+    }
+    if (event.is_error) {
+      this.addError(event.result);
+      if (Array.isArray(event.errors)) {
+        event.errors.forEach((error) => this.addError(error));
+      }
+    }
+    if (typeof event.num_turns === 'number') {
+      this.result.numTurns = event.num_turns;
+    }
+    if (typeof event.duration_ms === 'number') {
+      this.result.durationMs = event.duration_ms;
+    }
+    if (typeof event.duration_api_ms === 'number') {
+      this.result.durationApiMs = event.duration_api_ms;
+    }
+    const usage = event.usage as Record<string, unknown> | undefined;
+    if (usage && typeof usage === 'object') {
+      this.result.usage = {
+        inputTokens: asNumber(usage.input_tokens),
+        outputTokens: asNumber(usage.output_tokens),
+        cacheCreationInputTokens: asOptionalNumber(usage.cache_creation_input_tokens),
+        cacheReadInputTokens: asOptionalNumber(usage.cache_read_input_tokens),
+      };
+    }
+  }
+}
+
+/**
+ * Extract content blocks from an assistant/user message event
+ */
+export function getContentBlocks(event: StreamJsonEvent): ContentBlock[] {
+  const message = event.message as { content?: unknown } | undefined;
+  if (!message || !Array.isArray(message.content)) {
+    return [];
+  }
+  return message.content.filter(
+    (block): block is ContentBlock => !!block && typeof block === 'object' && typeof block.type === 'string'
+  );
+}
+
+/**
+ * Flatten tool_result content (string or array of text blocks) to plain text
+ */
+function flattenContent(content: unknown): string | undefined {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (part && typeof part === 'object' && typeof part.text === 'string' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return undefined;
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function asOptionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
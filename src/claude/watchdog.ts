@@ -0,0 +1,157 @@
+/**
+ * Execution Watchdog
+ *
+ * Guards a running agent process with three independent checks:
+ * - `timeout`: hard wall-clock limit
+ * - `idle`: no stdout/stderr output for too long
+ * - `stalled-on-prompt`: the last output line looks like an interactive prompt
+ *   (auth, confirmation, password) and nothing followed it
+ */
+
+/**
+ * Which guard stopped the process
+ */
+export type WatchdogReason = 'timeout' | 'idle' | 'stalled-on-prompt';
+
+export interface WatchdogTrip {
+  reason: WatchdogReason;
+  message: string;
+  /** The output line that looked like a prompt (stalled-on-prompt only) */
+  prompt?: string;
+}
+
+export interface WatchdogOptions {
+  /** Wall-clock limit in milliseconds */
+  timeout: number;
+  /** Kill after this many milliseconds without output (0 or undefined: disabled) */
+  idleTimeout?: number;
+  /** Kill this many milliseconds after a prompt-like line with no further output (0: disabled) */
+  promptTimeout?: number;
+  /** Additional prompt patterns, matched against the last output line */
+  promptPatterns?: RegExp[];
+}
+
+/** Grace period after a prompt-like line before the process is considered stalled */
+export const DEFAULT_PROMPT_TIMEOUT_MS = 15000;
+
+/**
+ * Output lines that mean a CLI is waiting for someone to type something
+ */
+export const DEFAULT_PROMPT_PATTERNS: RegExp[] = [
+  /[[(](y\/n|yes\/no)[\])]\s*[:?]?\s*$/i,
+  /press (enter|return|any key)/i,
+  /\bpassword( for [^:]+)?:\s*$/i,
+  /\bpassphrase[^:]*:\s*$/i,
+  /\b(paste|enter) (the |your )?(code|token|api key)\b[^:]*:?\s*$/i,
+  /\bdo you want to (proceed|continue)\?\s*$/i,
+  /\bwaiting for (input|authentication|login)\b/i,
+  /\bopen the following url\b.*\b(log ?in|sign ?in|authenticate)\b/i,
+];
+
+/** Only the end of each stream is kept for prompt detection */
+const TAIL_BYTES = 2048;
+
+/**
+ * Default inactivity timeout from IDLE_TIMEOUT (seconds), or undefined if unset
+ */
+export function getDefaultIdleTimeout(): number | undefined {
+  const seconds = Number(process.env.IDLE_TIMEOUT);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Timers watching one process. Call `activity` for every output chunk and `stop` once it exits.
+ */
+export class Watchdog {
+  private timeoutTimer: NodeJS.Timeout;
+  private idleTimer?: NodeJS.Timeout;
+  private promptTimer?: NodeJS.Timeout;
+  private tails = { stdout: '', stderr: '' };
+  private patterns: RegExp[];
+  private tripped = false;
+
+  constructor(
+    private options: WatchdogOptions,
+    private onTrip: (trip: WatchdogTrip) => void
+  ) {
+    this.patterns = [...DEFAULT_PROMPT_PATTERNS, ...(options.promptPatterns ?? [])];
+    this.timeoutTimer = setTimeout(() => {
+      this.trip({ reason: 'timeout', message: `Execution timed out after ${options.timeout}ms` });
+    }, options.timeout);
+    this.resetIdleTimer();
+  }
+
+  /**
+   * Record output from the process
+   */
+  activity(chunk: string, stream: 'stdout' | 'stderr'): void {
+    if (this.tripped) {
+      return;
+    }
+    this.resetIdleTimer();
+
+    if (this.options.promptTimeout === 0) {
+      return;
+    }
+
+    this.tails[stream] = (this.tails[stream] + chunk).slice(-TAIL_BYTES);
+    const prompt = this.findPrompt(this.tails[stream]);
+
+    clearTimeout(this.promptTimer);
+    this.promptTimer = undefined;
+    if (prompt) {
+      const promptTimeout = this.options.promptTimeout ?? DEFAULT_PROMPT_TIMEOUT_MS;
+      this.promptTimer = setTimeout(() => {
+        this.trip({
+          reason: 'stalled-on-prompt',
+          message: `Process appears to be waiting for input ("${prompt}") with no output for ${promptTimeout}ms`,
+          prompt,
+        });
+      }, promptTimeout);
+    }
+  }
+
+  /**
+   * Clear all timers
+   */
+  stop(): void {
+    clearTimeout(this.timeoutTimer);
+    clearTimeout(this.idleTimer);
+    clearTimeout(this.promptTimer);
+  }
+
+  private resetIdleTimer(): void {
+    const idleTimeout = this.options.idleTimeout;
+    if (!idleTimeout) {
+      return;
+    }
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.trip({ reason: 'idle', message: `No output for ${idleTimeout}ms; the process was considered hung` });
+    }, idleTimeout);
+  }
+
+  /**
+   * Return the last output line if it looks like a prompt
+   */
+  private findPrompt(tail: string): string | undefined {
+    // Strip ANSI escape sequences before matching
+    const lines = tail.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '').split(/\r?\n|\r/);
+    const last = lines.reverse().find((line) => line.trim() !== '')?.trim();
+
+    // stream-json events are agent output, not the CLI asking for input
+    if (!last || last.startsWith('{')) {
+      return undefined;
+    }
+    return this.patterns.some((pattern) => pattern.test(last)) ? last.substring(0, 200) : undefined;
+  }
+
+  private trip(trip: WatchdogTrip): void {
+    if (this.tripped) {
+      return;
+    }
+    this.tripped = true;
+    this.stop();
+    this.onTrip(trip);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Git Command Helpers
+ *
+ * Thin wrapper around the git CLI (spawned without a shell).
+ */
+
+import { execFile } from 'node:child_process';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+/** Large enough for full diffs of sizeable changes */
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+export interface GitOptions {
+  /** Extra environment variables */
+  env?: NodeJS.ProcessEnv;
+  /** Return null instead of throwing when git exits non-zero */
+  allowFailure?: boolean;
+  /** Written to git's stdin (e.g. for `cat-file --batch-check`) */
+  input?: string;
+}
+
+/**
+ * Run a git command and return its stdout
+ */
+export function runGit(args: string[], cwd: string, options?: GitOptions & { allowFailure?: false }): Promise<string>;
+export function runGit(args: string[], cwd: string, options: GitOptions & { allowFailure: true }): Promise<string | null>;
+export function runGit(args: string[], cwd: string, options: GitOptions = {}): Promise<string | null> {
+  logger.debug(`git ${args.join(' ')} (in ${cwd})`);
+
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      args,
+      {
+        cwd,
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+        maxBuffer: MAX_BUFFER,
+        windowsHide: true,
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+          return;
+        }
+
+        if (options.allowFailure) {
+          resolve(null);
+          return;
+        }
+
+        const notInstalled = (error as NodeJS.ErrnoException).code === 'ENOENT';
+        const subcommand = args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '-c');
+        reject(new McpServerError(
+          ErrorCode.GIT_ERROR,
+          notInstalled
+            ? 'git not found. Please ensure git is installed and in your PATH.'
+            : `git ${subcommand} failed: ${(stderr || error.message).trim()}`,
+          { args, cwd }
+        ));
+      }
+    );
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+}
+
+/**
+ * Get the repository root for a directory, or null if it is not inside a git work tree
+ */
+export async function getRepoRoot(cwd: string): Promise<string | null> {
+  const output = await runGit(['rev-parse', '--show-toplevel'], cwd, { allowFailure: true });
+  return output ? output.trim() : null;
+}
+
+/**
+ * Commit everything in a work tree (including untracked files).
+ * Falls back to a fixed identity when git has none configured.
+ * Returns false if there was nothing to commit.
+ */
+export async function commitAll(cwd: string, message: string): Promise<boolean> {
+  await runGit(['add', '-A'], cwd);
+
+  const status = await runGit(['status', '--porcelain'], cwd);
+  if (!status.trim()) {
+    return false;
+  }
+
+  await runGit([...await identityArgs(cwd), 'commit', '--no-verify', '-m', message], cwd);
+  return true;
+}
+
+/**
+ * `-c` options supplying a committer identity when the repository has none configured
+ */
+export async function identityArgs(cwd: string): Promise<string[]> {
+  const email = await runGit(['config', 'user.email'], cwd, { allowFailure: true });
+  return email?.trim()
+    ? []
+    : ['-c', 'user.name=Back-Agent', '-c', 'user.email=back-agent@localhost'];
+}
@@ -0,0 +1,159 @@
+/**
+ * Git Worktree Isolation
+ *
+ * Runs a task in a temporary worktree on its own branch so that concurrent
+ * tasks on the same repository cannot trample each other's edits.
+ */
+
+import { existsSync, realpathSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { commitAll, getRepoRoot, identityArgs, runGit } from './git.js';
+
+export type WorktreeState = 'active' | 'applied' | 'discarded';
+
+export type ApplyStrategy = 'merge' | 'cherry-pick';
+
+export interface WorktreeCommit {
+  hash: string;
+  subject: string;
+}
+
+export interface TaskWorktree {
+  /** Root of the original checkout */
+  repoRoot: string;
+  /** Path of the temporary worktree */
+  path: string;
+  /** Directory inside the worktree that corresponds to the task's working directory */
+  runDirectory: string;
+  /** Branch created for the task */
+  branch: string;
+  /** Commit the branch was created from */
+  baseCommit: string;
+  state: WorktreeState;
+  /** Commits on the branch since baseCommit (filled in when the task finishes) */
+  commits?: WorktreeCommit[];
+  /** Unified diff baseCommit..branch (filled in when the task finishes) */
+  diff?: string;
+}
+
+/**
+ * Create a worktree on a fresh branch for a task
+ */
+export async function createTaskWorktree(workingDirectory: string, taskId: string): Promise<TaskWorktree> {
+  const repoRoot = await getRepoRoot(workingDirectory);
+  if (!repoRoot) {
+    throw new McpServerError(
+      ErrorCode.NOT_A_GIT_REPOSITORY,
+      `Worktree isolation requires a git repository, but ${workingDirectory} is not inside one`,
+      { path: workingDirectory }
+    );
+  }
+
+  const head = await runGit(['rev-parse', '--verify', 'HEAD'], repoRoot, { allowFailure: true });
+  if (!head) {
+    throw new McpServerError(
+      ErrorCode.GIT_ERROR,
+      `Repository ${repoRoot} has no commits; worktree isolation needs a HEAD to branch from`,
+      { path: repoRoot }
+    );
+  }
+
+  const baseCommit = head.trim();
+  const branch = `back-agent/task-${taskId.substring(0, 8)}`;
+  const path = join(tmpdir(), 'back-agent-worktrees', taskId);
+
+  await runGit(['worktree', 'add', '-b', branch, path, baseCommit], repoRoot);
+
+  // Keep the task in the same subdirectory it was started from
+  const subdirectory = relative(realpathSync(repoRoot), realpathSync(workingDirectory));
+  const runDirectory = join(path, subdirectory);
+
+  logger.info(`Created worktree ${path} on branch ${branch} (base ${baseCommit.substring(0, 8)})`);
+
+  return { repoRoot, path, runDirectory, branch, baseCommit, state: 'active' };
+}
+
+/**
+ * Commit whatever the task left in its worktree and record the resulting commits and diff
+ */
+export async function finalizeTaskWorktree(worktree: TaskWorktree, taskId: string): Promise<void> {
+  if (!existsSync(worktree.path)) {
+    return;
+  }
+
+  await commitAll(worktree.path, `back-agent: uncommitted changes from task ${taskId}`);
+
+  const range = `${worktree.baseCommit}..${worktree.branch}`;
+  const log = await runGit(['log', '--format=%H%x09%s', '--reverse', range], worktree.path);
+  worktree.commits = log
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, ...subject] = line.split('\t');
+      return { hash, subject: subject.join('\t') };
+    });
+  worktree.diff = await runGit(['diff', worktree.baseCommit, worktree.branch], worktree.path);
+
+  logger.info(`Worktree branch ${worktree.branch} has ${worktree.commits.length} commit(s)`);
+}
+
+/**
+ * Bring a task's branch back into the original checkout, then remove the worktree and branch
+ */
+export async function applyTaskWorktree(worktree: TaskWorktree, strategy: ApplyStrategy): Promise<void> {
+  if (!worktree.commits || worktree.commits.length === 0) {
+    throw new McpServerError(
+      ErrorCode.INVALID_TASK_STATE,
+      `Branch ${worktree.branch} has no changes to apply`,
+      { branch: worktree.branch }
+    );
+  }
+
+  const args = strategy === 'merge'
+    ? ['merge', '--no-ff', '--no-edit', worktree.branch]
+    : ['cherry-pick', `${worktree.baseCommit}..${worktree.branch}`];
+
+  try {
+    await runGit([...await identityArgs(worktree.repoRoot), ...args], worktree.repoRoot);
+  } catch (error) {
+    const unmerged = await runGit(['diff', '--name-only', '--diff-filter=U'], worktree.repoRoot, { allowFailure: true });
+
+    // Leave the original checkout exactly as it was
+    await runGit([strategy, '--abort'], worktree.repoRoot, { allowFailure: true });
+
+    if (unmerged?.trim()) {
+      throw new McpServerError(
+        ErrorCode.MERGE_CONFLICT,
+        `Could not ${strategy} ${worktree.branch} into ${worktree.repoRoot} cleanly; the operation was aborted. ` +
+        'Resolve manually from the branch, or discard the changes.',
+        { branch: worktree.branch, repoRoot: worktree.repoRoot, conflicts: unmerged.trim().split('\n') }
+      );
+    }
+    throw error;
+  }
+
+  await removeTaskWorktree(worktree);
+  worktree.state = 'applied';
+  logger.info(`Applied ${worktree.branch} to ${worktree.repoRoot} via ${strategy}`);
+}
+
+/**
+ * Remove a task's worktree and branch without applying anything
+ */
+export async function discardTaskWorktree(worktree: TaskWorktree): Promise<void> {
+  await removeTaskWorktree(worktree);
+  worktree.state = 'discarded';
+  logger.info(`Discarded worktree branch ${worktree.branch}`);
+}
+
+async function removeTaskWorktree(worktree: TaskWorktree): Promise<void> {
+  if (existsSync(worktree.path)) {
+    await runGit(['worktree', 'remove', '--force', worktree.path], worktree.repoRoot);
+  } else {
+    await runGit(['worktree', 'prune'], worktree.repoRoot, { allowFailure: true });
+  }
+  await runGit(['branch', '-D', worktree.branch], worktree.repoRoot, { allowFailure: true });
+}
@@ -3,13 +3,21 @@
  *
  * An MCP server that executes tasks using Claude Code CLI.
  *
- * Main entry point for the server.
+ * Main entry point for the server. Serves a single client over stdio by
+ * default, or any number of clients over Streamable HTTP with
+ * `--transport http [--host <host>] [--port <port>]`.
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { HttpServerOptions, startHttpServer } from './server/http-server.js';
 import { registerExecuteTaskTool } from './server/tools/execute-task.js';
 import { registerTaskManagementTools } from './task-manager/task-tools.js';
+import { registerTaskResources } from './task-manager/task-resources.js';
+import { taskManager } from './task-manager/task-manager.js';
+import { killAllProcessTrees } from './claude/process-tree.js';
 import { logger, setLogLevel, LogLevel, initLogFile } from './utils/logger.js';
 import { createRequire } from 'module';
 
@@ -21,6 +29,87 @@ const SERVER_INFO = {
   version: packageJson.version,
 };
 
+type TransportKind = 'stdio' | 'http';
+
+interface CliOptions {
+  transport: TransportKind;
+  http: HttpServerOptions;
+}
+
+const CLI_OPTIONS = {
+  transport: { type: 'string' },
+  host: { type: 'string' },
+  port: { type: 'string' },
+  'auth-token-file': { type: 'string' },
+} as const;
+
+/**
+ * Read the transport options from the command line, falling back to the environment.
+ * Unknown arguments (e.g. added by an MCP client's launch config) are ignored, as they always were.
+ */
+function parseCliOptions(): CliOptions {
+  const { values: parsed } = parseArgs({ options: CLI_OPTIONS, strict: false, allowPositionals: true });
+
+  const values: Partial<Record<keyof typeof CLI_OPTIONS, string>> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!(name in CLI_OPTIONS)) {
+      logger.warn(`Ignoring unknown option ${name.length === 1 ? '-' : '--'}${name}`);
+    } else if (typeof value !== 'string') {
+      throw new Error(`Option --${name} needs a value`);
+    } else {
+      values[name as keyof typeof CLI_OPTIONS] = value;
+    }
+  }
+
+  const transport = (values.transport ?? process.env.BACK_AGENT_TRANSPORT ?? 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}" (expected stdio or http)`);
+  }
+
+  const port = Number(values.port ?? process.env.BACK_AGENT_HTTP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port ?? process.env.BACK_AGENT_HTTP_PORT}"`);
+  }
+
+  // A token file keeps the secret out of the process list
+  const tokenFile = values['auth-token-file'] ?? process.env.BACK_AGENT_AUTH_TOKEN_FILE;
+  const authToken = tokenFile ? readFileSync(tokenFile, 'utf-8').trim() : process.env.BACK_AGENT_AUTH_TOKEN?.trim();
+  if (tokenFile && !authToken) {
+    throw new Error(`Auth token file ${tokenFile} is empty`);
+  }
+
+  const idleSeconds = process.env.BACK_AGENT_SESSION_IDLE_TIMEOUT;
+  const sessionIdleTimeout = idleSeconds === undefined ? undefined : Number(idleSeconds);
+  if (sessionIdleTimeout !== undefined && !(sessionIdleTimeout >= 0)) {
+    throw new Error(`Invalid BACK_AGENT_SESSION_IDLE_TIMEOUT "${idleSeconds}"`);
+  }
+
+  return {
+    transport,
+    http: {
+      host: values.host ?? process.env.BACK_AGENT_HTTP_HOST ?? '127.0.0.1',
+      port,
+      authToken: authToken || undefined,
+      sessionIdleTimeoutMs: sessionIdleTimeout === undefined ? undefined : sessionIdleTimeout * 1000,
+    },
+  };
+}
+
+/**
+ * Create an MCP server with every tool and resource registered
+ * (one for stdio, one per client session over HTTP)
+ */
+function createMcpServer(): McpServer {
+  // Logging lets tools forward task output to the client (notifications/message)
+  const server = new McpServer(SERVER_INFO, { capabilities: { logging: {} } });
+
+  registerExecuteTaskTool(server);
+  registerTaskManagementTools(server);
+  registerTaskResources(server);
+
+  return server;
+}
+
 /**
  * Start the MCP server
  */
@@ -41,17 +130,24 @@ async function main(): Promise<void> {
   logger.info(`Starting ${SERVER_INFO.name} v${SERVER_INFO.version}`);
 
   try {
-    // Create MCP server instance
-    logger.debug('Creating McpServer instance...');
-    const server = new McpServer(SERVER_INFO);
-
-    // Register tools
-    logger.debug('Registering tools...');
-    registerExecuteTaskTool(server);
-    logger.info('Registered tool: execute-task');
+    const options = parseCliOptions();
+
+    // Load stored tasks and reconcile those a previous run left behind
+    await taskManager.initialize();
+
+    if (options.transport === 'http') {
+      // Every session gets its own server; all of them share the task manager
+      const { url } = await startHttpServer(createMcpServer, options.http);
+      logger.info(`Back-Agent MCP Server is listening on ${url}`);
+      if (!options.http.authToken) {
+        logger.warn('No auth token configured: any local process can connect');
+      }
+      return;
+    }
 
-    registerTaskManagementTools(server);
-    logger.info('Registered task management tools');
+    logger.debug('Creating McpServer instance...');
+    const server = createMcpServer();
+    logger.info('Registered tools and task resources');
 
     // Create stdio transport for communication
     logger.debug('Creating StdioServerTransport...');
@@ -73,6 +169,8 @@ async function main(): Promise<void> {
   }
 }
 
+let shuttingDown = false;
+
 // Handle uncaught errors
 process.on('uncaughtException', (error: Error) => {
   logger.error(`Uncaught exception: ${error.message}`);
@@ -94,13 +192,28 @@ main().catch((error) => {
   process.exit(1);
 });
 
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  logger.info('Received SIGINT, shutting down...');
+/**
+ * Stop every agent before exiting: they run in their own process groups and would keep editing
+ * repositories after the server is gone
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  logger.info(`Received ${signal}, shutting down...`);
+  try {
+    // Running tasks are recorded as interrupted; execute-task runs are killed along with them
+    await Promise.all([taskManager.shutdown(), killAllProcessTrees()]);
+  } catch (error) {
+    logger.error(`Error during shutdown: ${error}`);
+  }
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  logger.info('Received SIGTERM, shutting down...');
-  process.exit(0);
-});
+// Handle graceful shutdown (a second signal exits right away)
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (shuttingDown) {
+      process.exit(1);
+    }
+    shuttingDown = true;
+    void shutdown(signal);
+  });
+}
@@ -0,0 +1,245 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves MCP over Streamable HTTP at `/mcp`, so one long-running server (and
+ * its task queue) can be shared by several clients:
+ * - Every client session gets its own McpServer and transport; they all use
+ *   the same TaskManager.
+ * - Requests must carry `Authorization: Bearer <token>` when a token is
+ *   configured. Without one the server only listens on loopback addresses and
+ *   checks the Host header against DNS rebinding.
+ */
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export const MCP_PATH = '/mcp';
+
+/** Largest request body accepted */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+/** Default time a session may go without requests before it is closed */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must send (unset: no authentication, loopback hosts only) */
+  authToken?: string;
+  /**
+   * Close sessions with no open request (e.g. a notification stream) for this long, for clients that
+   * disconnect without ending their session (default: 30 minutes, 0 disables)
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpServerHandle {
+  /** Address the server listens on, e.g. `http://127.0.0.1:3000/mcp` */
+  url: string;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests still being answered, including open SSE streams */
+  openRequests: number;
+  /** When the last request started or finished */
+  lastActivity: number;
+}
+
+/**
+ * Listen for MCP clients over Streamable HTTP, creating a server per session with `createMcpServer`
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const loopback = LOOPBACK_HOSTS.has(options.host);
+  if (!options.authToken && !loopback) {
+    throw new McpServerError(
+      ErrorCode.INVALID_INPUT,
+      `Refusing to listen on ${options.host} without an auth token; set BACK_AGENT_AUTH_TOKEN or use a loopback host`
+    );
+  }
+
+  // Listen before taking requests so the actual port (when 0 asked for any free one) is known
+  const httpServer = createServer();
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  const allowedHosts = [...LOOPBACK_HOSTS].map((host) => `${host.includes(':') ? `[${host}]` : host}:${port}`);
+
+  const sessions = new Map<string, Session>();
+
+  const openSession = async (): Promise<StreamableHTTPServerTransport> => {
+    const server = createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, server, openRequests: 0, lastActivity: Date.now() });
+        logger.info(`Session ${sessionId} opened (${sessions.size} active)`);
+      },
+      // Without a token, a web page could reach a loopback server through DNS rebinding
+      enableDnsRebindingProtection: !options.authToken,
+      allowedHosts,
+    });
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && sessions.delete(sessionId)) {
+        logger.info(`Session ${sessionId} closed (${sessions.size} active)`);
+      }
+    };
+    await server.connect(transport);
+    return transport;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_PATH) {
+      sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, 'Missing or invalid bearer token');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendError(res, error instanceof BodyTooLargeError ? 413 : 400, String((error as Error).message), -32700);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        // Clients start a new session when theirs is not found
+        sendError(res, 404, `Session ${sessionId} not found`);
+        return;
+      }
+      session.openRequests++;
+      session.lastActivity = Date.now();
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      const transport = await openSession();
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    sendError(res, 400, 'Missing Mcp-Session-Id header; start a session with an initialize request');
+  };
+
+  // Attached in the same tick listen() resolved in, before any connection is read
+  httpServer.on('request', (req: IncomingMessage, res: ServerResponse) => {
+    handle(req, res).catch((error) => {
+      logger.error(`Error handling HTTP request: ${error}`);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error', -32603);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const idleTimeout = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sweeper = idleTimeout > 0
+    ? setInterval(() => closeIdleSessions(sessions, idleTimeout), Math.min(idleTimeout, 60 * 1000))
+    : undefined;
+  sweeper?.unref();
+
+  const url = `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}${MCP_PATH}`;
+
+  return {
+    url,
+    close: async () => {
+      clearInterval(sweeper);
+      for (const { transport } of [...sessions.values()]) {
+        await transport.close().catch((error) => logger.debug(`Could not close session: ${error}`));
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Close the sessions nobody has used for `idleTimeout` milliseconds (closing removes them from the map)
+ */
+function closeIdleSessions(sessions: Map<string, Session>, idleTimeout: number): void {
+  const now = Date.now();
+  for (const [sessionId, session] of sessions) {
+    if (session.openRequests === 0 && now - session.lastActivity >= idleTimeout) {
+      logger.info(`Session ${sessionId} idle for ${Math.round((now - session.lastActivity) / 1000)}s, closing it`);
+      session.transport.close().catch((error) => logger.debug(`Could not close session ${sessionId}: ${error}`));
+    }
+  }
+}
+
+/**
+ * Compare the request's bearer token with the configured one in constant time
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+class BodyTooLargeError extends Error {}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new Error('Parse error: request body is not valid JSON');
+  }
+}
+
+/**
+ * Reply with a JSON-RPC error that is not tied to a request
+ */
+function sendError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * MCP Progress Reporting
+ *
+ * Forwards execution progress to the MCP client that asked for the work:
+ * - `notifications/progress`, when the request carried a progress token:
+ *   attempts starting, each tool the agent uses, retries and an elapsed-time
+ *   heartbeat (which also keeps the client's request timeout from expiring)
+ * - `notifications/message` log messages with condensed output, which the
+ *   server drops below the level the client chose with `logging/setLevel`
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { LoggingLevel, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ExecutionEvent, formatExecutionEvent } from '../claude/progress.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Extra data the SDK passes to tool handlers
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ProgressReporterOptions {
+  /** Logger name shown with log messages (default: 'back-agent-mcp') */
+  logger?: string;
+  /** Send progress notifications if the request has a progress token (default: true) */
+  progress?: boolean;
+  /** Send log messages (default: true) */
+  log?: boolean;
+}
+
+export interface ProgressReporter {
+  /** Forward an execution event */
+  report(event: ExecutionEvent): void;
+  /** Send a progress notification (a no-op without a progress token) */
+  notify(message: string): void;
+  /** Send a log message */
+  log(level: LoggingLevel, message: string): void;
+  /** Stop the heartbeat */
+  stop(): void;
+}
+
+/** Interval of the elapsed-time heartbeat */
+const HEARTBEAT_MS = 10000;
+
+/**
+ * Create a reporter for the request a tool handler is serving
+ */
+export function createProgressReporter(
+  server: McpServer,
+  extra: ToolExtra,
+  options: ProgressReporterOptions = {}
+): ProgressReporter {
+  const progressToken = options.progress === false ? undefined : extra._meta?.progressToken;
+  const loggerName = options.logger ?? 'back-agent-mcp';
+  const startedAt = Date.now();
+  let progress = 0;
+
+  const notify = (message: string) => {
+    if (progressToken === undefined || extra.signal.aborted) {
+      return;
+    }
+    extra
+      .sendNotification({ method: 'notifications/progress', params: { progressToken, progress: ++progress, message } })
+      .catch((error) => logger.debug(`Could not send progress notification: ${error}`));
+  };
+
+  const log = (level: LoggingLevel, message: string) => {
+    if (options.log === false) {
+      return;
+    }
+    server
+      .sendLoggingMessage({ level, logger: loggerName, data: message }, extra.sessionId)
+      .catch((error) => logger.debug(`Could not send log message: ${error}`));
+  };
+
+  const heartbeat = progressToken !== undefined
+    ? setInterval(() => notify(`Running for ${formatElapsed(Date.now() - startedAt)}`), HEARTBEAT_MS)
+    : undefined;
+  heartbeat?.unref();
+
+  return {
+    report(event) {
+      const message = formatExecutionEvent(event);
+      switch (event.type) {
+        case 'output':
+          log(event.source === 'stderr' ? 'warning' : 'info', message);
+          break;
+        case 'retrying':
+          notify(message);
+          log('warning', message);
+          break;
+        default:
+          notify(message);
+          log('info', message);
+      }
+    },
+    notify,
+    log,
+    stop() {
+      clearInterval(heartbeat);
+    },
+  };
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
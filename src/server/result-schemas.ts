@@ -0,0 +1,148 @@
+/**
+ * Structured Tool Results
+ *
+ * Zod schemas of the `structuredContent` that tools return next to their
+ * markdown, declared as each tool's `outputSchema`. This module holds the
+ * pieces shared by execute-task and the task management tools: errors,
+ * run details, file changes and usage.
+ */
+
+import { z } from 'zod';
+import type { ExecutionResult, RunUsage } from '../claude/executor.js';
+import type { StructuredResult } from '../claude/stream-json.js';
+import { AttemptRecord, FAILURE_CLASSES, FailureClass } from '../claude/retry.js';
+import type { ChangeSummary, FileChange } from '../workspace/snapshot.js';
+import { ErrorCode, ToolError } from '../utils/error-handler.js';
+
+export const toolErrorSchema: z.ZodType<ToolError> = z.object({
+  code: z.nativeEnum(ErrorCode).describe('Machine-readable error code'),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+/**
+ * Schema a tool declares as its `outputSchema`: the result fields, which are all
+ * unset when the call failed and `error` is set instead (clients validate the
+ * structured content of failed calls too)
+ */
+export function toolOutputSchema<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema.partial().extend({
+    error: toolErrorSchema.optional().describe('Set when the call failed'),
+  });
+}
+
+export const failureClassSchema = z.enum(FAILURE_CLASSES as [FailureClass, ...FailureClass[]]);
+
+export const fileChangeSchema: z.ZodType<FileChange> = z.object({
+  path: z.string().describe('Path relative to the working directory'),
+  status: z.enum(['added', 'modified', 'deleted']),
+  additions: z.number(),
+  deletions: z.number(),
+  binary: z.boolean().optional(),
+});
+
+export const changeSummarySchema: z.ZodType<ChangeSummary> = z.object({
+  files: z.array(fileChangeSchema),
+  additions: z.number(),
+  deletions: z.number(),
+  patch: z.string().optional().describe('Unified diff of all changes'),
+  truncated: z.boolean().optional().describe('Too many files to compare them all; changes to the rest are not listed'),
+});
+
+export const runUsageSchema: z.ZodType<RunUsage> = z.object({
+  model: z.string().optional(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheCreationInputTokens: z.number(),
+  cacheReadInputTokens: z.number(),
+  costUsd: z.number(),
+});
+
+export const structuredRunSchema = z.object({
+  finalMessage: z.string().optional().describe('Final answer'),
+  assistantMessages: z.array(z.string()),
+  toolInvocations: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    input: z.unknown(),
+    status: z.enum(['pending', 'success', 'error']),
+    output: z.string().optional(),
+  })).describe('Tool calls in order (empty unless includeTrace is set)'),
+  sessionId: z.string().optional(),
+  model: z.string().optional(),
+  numTurns: z.number().optional(),
+  durationMs: z.number().optional(),
+  durationApiMs: z.number().optional(),
+  costUsd: z.number().optional(),
+  usage: z.object({
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cacheCreationInputTokens: z.number().optional(),
+    cacheReadInputTokens: z.number().optional(),
+  }).optional(),
+  isError: z.boolean().optional(),
+  subtype: z.string().optional(),
+  errors: z.array(z.string()).optional().describe('Errors the CLI reported itself'),
+});
+
+export const attemptSchema = z.object({
+  attempt: z.number(),
+  startedAt: z.string(),
+  completedAt: z.string(),
+  success: z.boolean(),
+  exitCode: z.number().nullable(),
+  error: z.string().optional(),
+  errorCode: z.nativeEnum(ErrorCode).optional(),
+  failureClass: failureClassSchema.optional(),
+  costUsd: z.number().optional(),
+  retryDelayMs: z.number().optional(),
+});
+
+/**
+ * Result of execute-task (on failure `error` is set and the call is an error)
+ */
+export const executionResultSchema = z.object({
+  success: z.boolean(),
+  cancelled: z.boolean().optional(),
+  exitCode: z.number().nullable(),
+  stdout: z.string().optional().describe('Raw output (text output format only)'),
+  stderr: z.string().optional(),
+  run: structuredRunSchema.optional().describe('Parsed run details (stream-json output format only)'),
+  attempts: z.array(attemptSchema).optional(),
+  usage: runUsageSchema.optional(),
+  changes: changeSummarySchema.optional().describe('Files the run changed (without the patch)'),
+  error: toolErrorSchema.optional(),
+});
+
+export type ExecutionResultOutput = z.infer<typeof executionResultSchema>;
+
+/**
+ * Structured form of an execution result
+ */
+export function toExecutionResultOutput(result: ExecutionResult, includeTrace: boolean): ExecutionResultOutput {
+  return {
+    success: result.success,
+    cancelled: result.cancelled,
+    exitCode: result.exitCode,
+    stdout: result.structured ? undefined : result.stdout,
+    stderr: result.stderr || undefined,
+    run: result.structured && withTrace(result.structured, includeTrace),
+    attempts: result.attempts?.map(toAttemptOutput),
+    usage: result.usage,
+    changes: result.changes,
+    error: result.success
+      ? undefined
+      : { code: result.errorCode ?? ErrorCode.EXECUTION_FAILED, message: result.error ?? 'Execution failed' },
+  };
+}
+
+/**
+ * Drop the tool invocations unless they were asked for
+ */
+export function withTrace(structured: StructuredResult, includeTrace: boolean): StructuredResult {
+  return includeTrace ? structured : { ...structured, toolInvocations: [] };
+}
+
+export function toAttemptOutput(attempt: AttemptRecord): z.infer<typeof attemptSchema> {
+  return { ...attempt, startedAt: attempt.startedAt.toISOString(), completedAt: attempt.completedAt.toISOString() };
+}
@@ -7,9 +7,45 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { executeClaudeTask } from '../../claude/executor.js';
+import { executeClaudeTask, ExecutionResult } from '../../claude/executor.js';
+import { FAILURE_CLASSES, FailureClass, RetryPolicy } from '../../claude/retry.js';
 import { logger } from '../../utils/logger.js';
-import { createErrorResponse } from '../../utils/error-handler.js';
+import { createErrorResponse, ErrorCode, McpServerError } from '../../utils/error-handler.js';
+import { formatChangeSummary, formatStructuredResult } from '../../utils/result-formatter.js';
+import { createProgressReporter, ToolExtra } from '../progress.js';
+import { executionResultSchema, toExecutionResultOutput, toolOutputSchema } from '../result-schemas.js';
+
+/**
+ * Retry policy as accepted by execute-task and create-task (delays in seconds)
+ */
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).describe('Total attempts including the first (default: 1 = no retries)'),
+  initialDelay: z.number().min(0).max(600).optional().describe('Seconds before the first retry (default: 2)'),
+  maxDelay: z.number().min(0).max(3600).optional().describe('Upper bound for any retry delay in seconds (default: 60)'),
+  backoffMultiplier: z.number().min(1).max(10).optional().describe('Delay multiplier after each retry (default: 2)'),
+  jitter: z.number().min(0).max(1).optional().describe('Random spread of each delay, 0-1 (default: 0.2 = ±20%)'),
+  retryOn: z.array(z.enum(FAILURE_CLASSES as [FailureClass, ...FailureClass[]])).optional().describe(
+    'Failure classes to retry (default: rate_limited, overloaded, network). ' +
+    'Others: timeout, idle, stalled_on_prompt, auth, not_found, error.'
+  ),
+}).describe('Retry failed runs whose failure is transient, with exponential backoff');
+
+/**
+ * Convert the tool-level retry input to an executor retry policy
+ */
+export function toRetryPolicy(input: z.infer<typeof retryPolicySchema> | undefined): RetryPolicy | undefined {
+  if (!input) {
+    return undefined;
+  }
+  return {
+    maxAttempts: input.maxAttempts,
+    initialDelayMs: input.initialDelay !== undefined ? input.initialDelay * 1000 : undefined,
+    maxDelayMs: input.maxDelay !== undefined ? input.maxDelay * 1000 : undefined,
+    backoffMultiplier: input.backoffMultiplier,
+    jitter: input.jitter,
+    retryOn: input.retryOn,
+  };
+}
 
 /**
  * Input schema for the execute-task tool
@@ -26,7 +62,31 @@ export const executeTaskInputSchema = z.object({
     'Defaults to the current workspace directory if not specified.'
   ),
   timeout: z.number().min(1).max(3600).optional().describe('Timeout in seconds (max 3600)'),
+  idleTimeout: z.number().min(1).max(3600).optional().describe(
+    'Kill Claude Code if it produces no output for this many seconds (default: IDLE_TIMEOUT, else disabled). ' +
+    'Independently, a run that prints an interactive prompt (e.g. an auth or y/n question) and then stalls is stopped.'
+  ),
   additionalArgs: z.array(z.string()).optional().describe('Additional CLI arguments for Claude Code'),
+  retry: retryPolicySchema.optional(),
+  maxCostUsd: z.number().min(0).optional().describe(
+    'Budget in USD: Claude Code is started with --max-budget-usd set to what is left of it, a run reporting a ' +
+    'higher running cost (stream-json) is killed, and failed attempts are not retried once it is spent'
+  ),
+  outputFormat: z.enum(['text', 'stream-json']).optional().describe(
+    'CLI output format (default: text). text returns the raw CLI output; ' +
+    'stream-json returns the final answer plus a structured run summary instead of the raw event stream.'
+  ),
+  backend: z.string().optional().describe(
+    'Agent backend to run the task with (default: claude). Built-in: claude, fake; ' +
+    'custom is available when CUSTOM_AGENT_COMMAND is configured.'
+  ),
+  captureChanges: z.boolean().optional().describe(
+    'Snapshot the working directory before and after the run and list the files that were added, ' +
+    'modified or deleted (default: false; outside git repositories every file is hashed)'
+  ),
+  includeTrace: z.boolean().optional().describe(
+    'Include the list of tool invocations (name, input, outcome) in the response (stream-json only, default: false)'
+  ),
 });
 
 export type ExecuteTaskInput = z.infer<typeof executeTaskInputSchema>;
@@ -54,10 +114,16 @@ export function registerExecuteTaskTool(server: McpServer): void {
         '- "Create a REST API endpoint for user authentication"\n' +
         '- "Debug why the tests are failing"\n' +
         '- "Refactor the user module to use TypeScript"\n\n' +
-        'The returned output is Claude Code\'s conversational response, not raw command output.',
+        'The returned output is Claude Code\'s conversational response, not raw command output.\n\n' +
+        'While it runs, progress notifications are sent if the request has a progress token (start, each tool ' +
+        'Claude uses, and a heartbeat every 10 seconds), and condensed output is sent as log messages. ' +
+        'Cancelling the request stops Claude Code and its child processes.\n\n' +
+        'The structured result carries the parsed run, usage, attempts and changed files; on failure its ' +
+        '`error.code` classifies the failure.',
       inputSchema: executeTaskInputSchema,
+      outputSchema: toolOutputSchema(executionResultSchema),
     },
-    async (input: unknown): Promise<CallToolResult> => {
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
       // Validate input
       const validationResult = executeTaskInputSchema.safeParse(input);
 
@@ -67,37 +133,75 @@ export function registerExecuteTaskTool(server: McpServer): void {
           .join(', ');
         logger.error(`Invalid input: ${errorMessages}`);
         return createErrorResponse(
-          new Error(`Invalid input: ${errorMessages}`)
+          new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${errorMessages}`)
         );
       }
 
-      const { task, workingDirectory, timeout = 300, additionalArgs = [] } = validationResult.data;
+      const {
+        task,
+        workingDirectory,
+        timeout = 300,
+        idleTimeout,
+        additionalArgs = [],
+        retry,
+        maxCostUsd,
+        outputFormat = 'text',
+        backend,
+        captureChanges = false,
+        includeTrace = false,
+      } = validationResult.data;
 
       logger.info(`Executing task via MCP: "${task.substring(0, 50)}..."`);
 
+      const progress = createProgressReporter(server, extra);
       try {
         // Execute the task
         const result = await executeClaudeTask({
           task,
           workingDirectory,
           timeout: timeout * 1000, // Convert to milliseconds
+          idleTimeout: idleTimeout !== undefined ? idleTimeout * 1000 : undefined,
           additionalArgs,
+          retry: toRetryPolicy(retry),
+          maxCostUsd,
+          outputFormat,
+          backend,
+          // The patch itself is not returned by this tool, so don't collect it
+          captureChanges: captureChanges && { includePatch: false },
+          onProgress: (event) => progress.report(event),
+          // notifications/cancelled from the client
+          signal: extra.signal,
         });
+        const structuredContent = toExecutionResultOutput(result, includeTrace);
 
         // Format and return the result
         if (result.success) {
+          logger.info('Task completed successfully');
+
+          if (result.structured) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: withChanges(formatStructuredSuccessOutput(result, includeTrace), result),
+                },
+              ],
+              structuredContent,
+            };
+          }
+
           const output = result.stdout.trim()
             ? result.stdout
             : 'Task completed successfully with no output.';
 
-          logger.info('Task completed successfully');
           return {
             content: [
               {
                 type: 'text' as const,
-                text: formatSuccessOutput(output, result.exitCode),
+                text: withChanges(formatSuccessOutput(output, result.exitCode), result),
               },
             ],
+            structuredContent,
           };
         } else {
           logger.error('Task execution failed');
@@ -105,20 +209,30 @@ export function registerExecuteTaskTool(server: McpServer): void {
             content: [
               {
                 type: 'text' as const,
-                text: formatErrorOutput(result, task),
+                text: withChanges(formatErrorOutput(result, task, includeTrace), result),
               },
             ],
+            structuredContent,
             isError: true,
           };
         }
       } catch (error) {
         logger.error(`Unexpected error: ${error}`);
         return createErrorResponse(error);
+      } finally {
+        progress.stop();
       }
     }
   );
 }
 
+/**
+ * Append the change summary, if one was captured
+ */
+function withChanges(output: string, result: ExecutionResult): string {
+  return result.changes ? `${output}\n\n${formatChangeSummary(result.changes)}` : output;
+}
+
 /**
  * Format successful execution output
  */
@@ -141,15 +255,28 @@ function formatSuccessOutput(stdout: string, exitCode: number | null): string {
   return lines.join('\n');
 }
 
+/**
+ * Format successful stream-json execution output (final message first)
+ */
+function formatStructuredSuccessOutput(result: ExecutionResult, includeTrace: boolean): string {
+  const lines: string[] = [];
+
+  lines.push('## Task Completed Successfully');
+  lines.push('');
+  lines.push(formatStructuredResult(result.structured!, { includeTrace }));
+
+  if (result.exitCode !== null) {
+    lines.push('');
+    lines.push(`Exit Code: ${result.exitCode}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format failed execution output
  */
-function formatErrorOutput(result: {
-  stderr: string;
-  stdout: string;
-  exitCode: number | null;
-  error?: string;
-}, task: string): string {
+function formatErrorOutput(result: ExecutionResult, task: string, includeTrace: boolean): string {
   const lines: string[] = [];
 
   lines.push('## Task Execution Failed');
@@ -158,7 +285,17 @@ function formatErrorOutput(result: {
   lines.push('');
 
   if (result.error) {
-    lines.push(`**Error:** ${result.error}`);
+    lines.push(`**Error:** ${result.error}${result.errorCode ? ` (\`${result.errorCode}\`)` : ''}`);
+    lines.push('');
+  }
+
+  if (result.attempts && result.attempts.length > 1) {
+    lines.push(`**Attempts:** ${result.attempts.length} (${result.attempts.map((a) => a.failureClass ?? 'ok').join(', ')})`);
+    lines.push('');
+  }
+
+  if (result.structured) {
+    lines.push(formatStructuredResult(result.structured, { includeTrace }));
     lines.push('');
   }
 
@@ -168,7 +305,8 @@ function formatErrorOutput(result: {
     lines.push('');
   }
 
-  if (result.stdout) {
+  // Raw stream-json output is only useful when nothing could be parsed from it
+  if (result.stdout && !result.structured?.finalMessage) {
     lines.push('### Standard Output:');
     lines.push('```\n' + result.stdout.trim() + '\n```');
     lines.push('');
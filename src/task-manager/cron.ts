@@ -0,0 +1,178 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field cron syntax, evaluated in the server's local time zone:
+ *
+ *   minute (0-59) hour (0-23) day-of-month (1-31) month (1-12 or JAN-DEC) day-of-week (0-7 or SUN-SAT, 0 and 7 = Sunday)
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). As in classic cron, a day matches if either the
+ * day-of-month or the day-of-week field matches when both are restricted.
+ * The macros @hourly, @daily (@midnight), @weekly, @monthly and @yearly
+ * (@annually) are supported as well.
+ */
+
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+
+export interface CronExpression {
+  /** Expression as given */
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were restricted (not `*`) */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for the values, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Give up looking for the next run after this many candidate steps (e.g. "0 0 30 2 *") */
+const MAX_SEARCH_STEPS = 100000;
+
+/**
+ * Parse a cron expression, throwing INVALID_INPUT if it is malformed
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw invalid(source, `expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(source, field, FIELDS[index]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const cron: CronExpression = {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  };
+
+  // Reject expressions that can never fire, such as "0 0 31 2 *"
+  nextCronRun(cron, new Date());
+  return cron;
+}
+
+/**
+ * First time strictly after `after` (to the minute) that matches the expression
+ */
+export function nextCronRun(cron: CronExpression, after: Date): Date {
+  const t = new Date(after.getTime());
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+
+  throw invalid(cron.source, 'it never matches a date');
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(source: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid(source, `invalid step "${stepText}" in the ${spec.name} field`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = spec.min;
+      to = spec.name === 'day-of-week' ? 6 : spec.max;
+    } else {
+      const [start, end] = range.split('-');
+      from = parseValue(source, start, spec);
+      // "5/15" means from 5 to the end of the range
+      to = end !== undefined ? parseValue(source, end, spec) : stepText !== undefined ? spec.max : from;
+      if (from > to) {
+        throw invalid(source, `range "${range}" is backwards in the ${spec.name} field`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(source: string, text: string | undefined, spec: FieldSpec): number {
+  const upper = text?.toUpperCase() ?? '';
+  const named = spec.names?.indexOf(upper) ?? -1;
+  const value = named !== -1 ? named + (spec.name === 'month' ? 1 : 0) : /^\d+$/.test(upper) ? Number(upper) : NaN;
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw invalid(source, `"${text ?? ''}" is not a valid ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function invalid(source: string, reason: string): McpServerError {
+  return new McpServerError(ErrorCode.INVALID_INPUT, `Invalid cron expression "${source}": ${reason}`, { cron: source });
+}
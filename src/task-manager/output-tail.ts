@@ -0,0 +1,117 @@
+/**
+ * Output Tailing
+ *
+ * Reads a task's output in pieces, from a cursor that counts either bytes
+ * (UTF-8) or complete lines. Each read returns the cursor to continue from,
+ * so a client can follow a running task without receiving anything twice.
+ */
+
+import { StreamJsonParser } from '../claude/stream-json.js';
+
+export type TailUnit = 'bytes' | 'lines';
+
+export interface TailOptions {
+  /** Position to read from, in `unit`s (default: 0) */
+  cursor?: number;
+  /** Whether the cursor counts bytes or lines (default: 'bytes') */
+  unit?: TailUnit;
+  /** Most bytes or lines to return (default: 65536 bytes or 500 lines) */
+  limit?: number;
+}
+
+export interface OutputTail {
+  text: string;
+  unit: TailUnit;
+  /** Where the returned text starts */
+  cursor: number;
+  /** Where the next read continues */
+  nextCursor: number;
+  /** More output is already available past nextCursor */
+  hasMore: boolean;
+  /** The cursor was past the end of the output (e.g. a retry restarted it), so reading started over */
+  reset: boolean;
+}
+
+const DEFAULT_LIMITS: Record<TailUnit, number> = { bytes: 64 * 1024, lines: 500 };
+
+/**
+ * Read from the output text at a cursor.
+ *
+ * @param complete - no more output will follow; otherwise a trailing partial line is held back in line mode
+ */
+export function tailText(text: string, options: TailOptions, complete: boolean): OutputTail {
+  const unit = options.unit ?? 'bytes';
+  const limit = options.limit ?? DEFAULT_LIMITS[unit];
+  return unit === 'bytes' ? tailBytes(text, options.cursor ?? 0, limit) : tailLines(text, options.cursor ?? 0, limit, complete);
+}
+
+/**
+ * The assistant's text blocks in a stream-json transcript, one paragraph each
+ */
+export function extractAssistantText(streamJson: string): string {
+  const parser = new StreamJsonParser();
+  parser.push(streamJson);
+  const messages = parser.getResult().assistantMessages;
+  return messages.length > 0 ? `${messages.join('\n\n')}\n` : '';
+}
+
+function tailBytes(text: string, requested: number, limit: number): OutputTail {
+  const buffer = Buffer.from(text, 'utf8');
+  const reset = requested > buffer.length;
+  let cursor = reset ? 0 : requested;
+  // A cursor inside a multi-byte character (not one we returned) starts at that character
+  cursor = characterStart(buffer, cursor);
+
+  // Don't cut a multi-byte character in half, but always return at least one
+  // whole character so a small limit still makes progress
+  let end = characterStart(buffer, Math.min(buffer.length, cursor + limit));
+  if (end === cursor && cursor < buffer.length) {
+    end = cursor + 1;
+    while (end < buffer.length && isContinuationByte(buffer[end])) {
+      end++;
+    }
+  }
+
+  return {
+    text: buffer.subarray(cursor, end).toString('utf8'),
+    unit: 'bytes',
+    cursor,
+    nextCursor: end,
+    hasMore: end < buffer.length,
+    reset,
+  };
+}
+
+function characterStart(buffer: Buffer, offset: number): number {
+  while (offset > 0 && offset < buffer.length && isContinuationByte(buffer[offset])) {
+    offset--;
+  }
+  return offset;
+}
+
+function isContinuationByte(byte: number): boolean {
+  return (byte & 0xc0) === 0x80;
+}
+
+function tailLines(text: string, requested: number, limit: number, complete: boolean): OutputTail {
+  const lines = text.split('\n');
+  // The text after the last newline is a line still being written, unless the output is complete
+  const partial = lines.pop() ?? '';
+  if (complete && partial) {
+    lines.push(partial);
+  }
+
+  const reset = requested > lines.length;
+  const cursor = reset ? 0 : requested;
+  const end = Math.min(lines.length, cursor + limit);
+  const page = lines.slice(cursor, end);
+
+  return {
+    text: page.length > 0 ? `${page.join('\n')}\n` : '',
+    unit: 'lines',
+    cursor,
+    nextCursor: end,
+    hasMore: end < lines.length,
+    reset,
+  };
+}
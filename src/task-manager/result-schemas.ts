@@ -0,0 +1,311 @@
+/**
+ * Structured Task Tool Results
+ *
+ * Zod schemas of the `structuredContent` returned by the task management
+ * tools, and conversions of the task manager's objects into that form
+ * (dates become ISO 8601 strings).
+ */
+
+import { z } from 'zod';
+import {
+  attemptSchema,
+  changeSummarySchema,
+  failureClassSchema,
+  fileChangeSchema,
+  runUsageSchema,
+  structuredRunSchema,
+} from '../server/result-schemas.js';
+import { ErrorCode } from '../utils/error-handler.js';
+import type { CleanupReport, TaskInfo, TaskOutputTail } from './task-manager.js';
+import { QueuePosition, TASK_PRIORITIES, TaskPriority } from './scheduler.js';
+import { RUN_CONDITIONS, RunCondition, WorkflowSummary } from './workflow.js';
+import { CATCH_UP_POLICIES, CatchUpPolicy, Schedule } from './schedules.js';
+import type { SpendSummary } from './usage-ledger.js';
+
+export const taskStatusSchema = z.enum(['blocked', 'pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted']);
+
+const prioritySchema = z.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]]);
+
+export const taskInfoSchema: z.ZodType<TaskInfo> = z.object({
+  id: z.string(),
+  task: z.string().describe('The prompt'),
+  workingDirectory: z.string().optional(),
+  backend: z.string(),
+  priority: prioritySchema,
+  status: taskStatusSchema,
+  queuePosition: z.number().optional(),
+  concurrencyKey: z.string().optional(),
+  readOnly: z.boolean(),
+  waitingForLockHeldBy: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  runIf: z.enum(RUN_CONDITIONS as [RunCondition, ...RunCondition[]]).optional(),
+  blockedOn: z.array(z.string()).optional(),
+  workflow: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    step: z.string(),
+  }).optional(),
+  scheduleId: z.string().optional(),
+  pinned: z.boolean(),
+  tags: z.array(z.string()).optional(),
+  outputBytes: z.number(),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  error: z.string().optional(),
+  errorCode: z.nativeEnum(ErrorCode).optional(),
+  success: z.boolean().optional(),
+  exitCode: z.number().nullable().optional(),
+  sessionId: z.string().optional(),
+  parentTaskId: z.string().optional(),
+  clientSessionId: z.string().optional().describe('MCP session that created the task (HTTP transport)'),
+  isolation: z.enum(['none', 'worktree']),
+  attempt: z.object({
+    number: z.number(),
+    maxAttempts: z.number(),
+    previousFailure: failureClassSchema.optional(),
+  }).optional(),
+  attempts: z.array(attemptSchema.pick({
+    attempt: true,
+    startedAt: true,
+    completedAt: true,
+    success: true,
+    failureClass: true,
+    error: true,
+    retryDelayMs: true,
+  })).optional(),
+  usage: runUsageSchema.optional(),
+  maxCostUsd: z.number().optional(),
+  filesChanged: z.number().optional(),
+  worktree: z.object({
+    branch: z.string(),
+    path: z.string(),
+    baseCommit: z.string(),
+    state: z.enum(['active', 'applied', 'discarded']),
+    commitCount: z.number().optional(),
+  }).optional(),
+  checkpoint: z.object({
+    kind: z.enum(['git', 'files']),
+    location: z.string(),
+    state: z.enum(['active', 'restored']),
+  }).optional(),
+});
+
+/**
+ * A single task (create-task, continue-task, cancel-task, pin-task, discard-task-changes)
+ */
+export const taskResultSchema = z.object({
+  task: taskInfoSchema,
+});
+
+export const taskStatusResultSchema = z.object({
+  task: taskInfoSchema,
+  ancestors: z.array(taskInfoSchema).describe('Tasks this one continues, oldest first'),
+  followUps: z.array(taskInfoSchema).describe('Tasks that continue this one'),
+});
+
+export const waitResultSchema = z.object({
+  satisfied: z.boolean().describe('Whether the tasks finished before the timeout'),
+  mode: z.enum(['any', 'all']),
+  waitedMs: z.number(),
+  tasks: z.array(taskInfoSchema),
+  deleted: z.array(z.string()).describe('Tasks deleted while waiting'),
+});
+
+export const taskOutputResultSchema = z.object({
+  task: taskInfoSchema,
+  stdout: z.string().optional().describe('Raw output (unless the run could be parsed from stream-json)'),
+  stderr: z.string().optional(),
+  run: structuredRunSchema.optional().describe('Parsed run details (stream-json tasks)'),
+  changes: changeSummarySchema.optional(),
+  commits: z.array(z.object({ hash: z.string(), subject: z.string() })).optional()
+    .describe('Commits on the worktree branch (isolation "worktree")'),
+  diff: z.string().optional().describe('Diff of the worktree branch against its base'),
+});
+
+export const outputTailSchema = z.object({
+  text: z.string(),
+  unit: z.enum(['bytes', 'lines']),
+  cursor: z.number().describe('Where the text starts'),
+  nextCursor: z.number().describe('Cursor for the next call'),
+  hasMore: z.boolean().describe('More output is already available past nextCursor'),
+  reset: z.boolean().describe('The cursor was past the end of the output, so reading started over'),
+  status: taskStatusSchema,
+  attempt: z.number().optional(),
+  complete: z.boolean().describe('The task has finished, so no more output will follow'),
+}) satisfies z.ZodType<TaskOutputTail>;
+
+export const taskDiffResultSchema = z.object({
+  task: taskInfoSchema,
+  changes: changeSummarySchema.optional().describe('Unset while the task runs or if changes were not captured'),
+});
+
+export const deletedResultSchema = z.object({
+  id: z.string(),
+  deleted: z.boolean(),
+});
+
+export const cleanupReportSchema = z.object({
+  dryRun: z.boolean(),
+  policy: z.object({
+    maxAgeMs: z.number().optional(),
+    maxTasks: z.number().optional(),
+    maxOutputBytes: z.number().optional(),
+  }).describe('Limits that were applied'),
+  removed: z.array(z.object({
+    id: z.string(),
+    task: z.string(),
+    status: taskStatusSchema,
+    completedAt: z.string().optional(),
+    reason: z.enum(['age', 'count', 'output']),
+    outputBytes: z.number(),
+  })),
+  before: z.object({ tasks: z.number(), outputBytes: z.number() }),
+  after: z.object({ tasks: z.number(), outputBytes: z.number() }),
+}) satisfies z.ZodType<CleanupReport>;
+
+export const taskStatsSchema = z.object({
+  total: z.number(),
+  blocked: z.number(),
+  pending: z.number(),
+  running: z.number(),
+  completed: z.number(),
+  failed: z.number(),
+  cancelled: z.number(),
+  interrupted: z.number(),
+});
+
+export const taskPageSchema = z.object({
+  tasks: z.array(taskInfoSchema),
+  total: z.number().describe('Number of tasks matching the filters'),
+  nextCursor: z.string().optional().describe('Pass as cursor to get the next page'),
+  stats: taskStatsSchema,
+});
+
+const usageTotalsShape = {
+  tasks: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  costUsd: z.number(),
+};
+
+export const spendSummarySchema: z.ZodType<SpendSummary> = z.object({
+  overall: z.object(usageTotalsShape),
+  today: z.object(usageTotalsShape),
+  last24h: z.object(usageTotalsShape),
+  dailyBudgetUsd: z.number().optional(),
+  byDirectory: z.array(z.object({ workingDirectory: z.string(), ...usageTotalsShape })),
+  byDay: z.array(z.object({ day: z.string(), ...usageTotalsShape })),
+  byModel: z.array(z.object({ model: z.string(), ...usageTotalsShape })),
+});
+
+export const statsResultSchema = z.object({
+  stats: taskStatsSchema,
+  spend: spendSummarySchema,
+});
+
+export const queueResultSchema = z.object({
+  queue: z.array(z.object({
+    id: z.string(),
+    priority: prioritySchema,
+    position: z.number(),
+    queuedAt: z.string(),
+    estimatedStartAt: z.string().optional(),
+    concurrencyKey: z.string().optional(),
+    waitingForLockHeldBy: z.string().optional(),
+    task: taskInfoSchema,
+  })),
+  running: z.number(),
+});
+
+export const workflowResultSchema = z.object({
+  workflow: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']),
+    createdAt: z.string(),
+    completedAt: z.string().optional(),
+    counts: z.record(taskStatusSchema, z.number()).describe('Number of steps in each status'),
+    skipped: z.number().describe('Steps skipped because their run condition was not met'),
+  }),
+  steps: z.array(taskInfoSchema),
+});
+
+const scheduleSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  cron: z.string().optional(),
+  runAt: z.string().optional(),
+  task: z.string().describe('Prompt of the tasks it creates'),
+  workingDirectory: z.string().optional(),
+  catchUp: z.enum(CATCH_UP_POLICIES as [CatchUpPolicy, ...CatchUpPolicy[]]),
+  state: z.enum(['active', 'completed']),
+  createdAt: z.string(),
+  nextRunAt: z.string().optional(),
+  lastRunAt: z.string().optional(),
+  runCount: z.number(),
+  runs: z.array(z.object({
+    scheduledFor: z.string(),
+    firedAt: z.string().optional(),
+    taskId: z.string().optional(),
+    error: z.string().optional(),
+    missed: z.boolean().optional(),
+    catchUp: z.boolean().optional(),
+  })).describe('Most recent runs, oldest first'),
+});
+
+export const scheduleResultSchema = z.object({
+  schedule: scheduleSchema,
+});
+
+export const scheduleListResultSchema = z.object({
+  schedules: z.array(scheduleSchema),
+});
+
+export const applyResultSchema = z.object({
+  task: taskInfoSchema,
+  strategy: z.enum(['merge', 'cherry-pick']),
+});
+
+export const rollbackResultSchema = z.object({
+  task: taskInfoSchema,
+  restored: z.array(fileChangeSchema).describe('Files restored from the checkpoint (added files were removed)'),
+});
+
+export function toQueueEntryOutput(entry: QueuePosition & { task: TaskInfo }): z.infer<typeof queueResultSchema>['queue'][number] {
+  return {
+    ...entry,
+    queuedAt: entry.queuedAt.toISOString(),
+    estimatedStartAt: entry.estimatedStartAt?.toISOString(),
+  };
+}
+
+export function toWorkflowOutput(summary: WorkflowSummary): z.infer<typeof workflowResultSchema>['workflow'] {
+  return {
+    ...summary,
+    createdAt: summary.createdAt.toISOString(),
+    completedAt: summary.completedAt?.toISOString(),
+  };
+}
+
+export function toScheduleOutput(schedule: Schedule): z.infer<typeof scheduleSchema> {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    runAt: schedule.runAt?.toISOString(),
+    task: schedule.task.task,
+    workingDirectory: schedule.task.workingDirectory,
+    catchUp: schedule.catchUp,
+    state: schedule.state,
+    createdAt: schedule.createdAt.toISOString(),
+    nextRunAt: schedule.nextRunAt?.toISOString(),
+    lastRunAt: schedule.lastRunAt?.toISOString(),
+    runCount: schedule.runCount,
+    runs: schedule.runs.map((run) => ({
+      ...run,
+      scheduledFor: run.scheduledFor.toISOString(),
+      firedAt: run.firedAt?.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Task Retention
+ *
+ * Decides which finished tasks to forget so a long-lived server does not keep
+ * every task's output in memory (and in the store) forever. Limits are checked
+ * in order - maximum age, maximum number of tasks, maximum total output size -
+ * and the oldest finished tasks go first.
+ *
+ * Never evicted:
+ * - unfinished tasks (blocked, pending, running)
+ * - pinned tasks
+ * - tasks other unfinished tasks depend on
+ * - isolated tasks whose worktree changes have been neither applied nor discarded
+ */
+
+import type { Task } from './task-manager.js';
+
+export interface RetentionPolicy {
+  /** Forget finished tasks older than this (milliseconds since they finished) */
+  maxAgeMs?: number;
+  /** Keep at most this many tasks in total */
+  maxTasks?: number;
+  /** Keep at most this much task output (stdout, stderr, patches and diffs) in total */
+  maxOutputBytes?: number;
+}
+
+export type EvictionReason = 'age' | 'count' | 'output';
+
+export interface Eviction {
+  task: Task;
+  reason: EvictionReason;
+  outputBytes: number;
+}
+
+export interface RetentionPlan {
+  evictions: Eviction[];
+  /** Tasks and output before and after the evictions */
+  before: { tasks: number; outputBytes: number };
+  after: { tasks: number; outputBytes: number };
+}
+
+/**
+ * Output a task holds on to, in bytes
+ */
+export function getTaskOutputBytes(task: Task): number {
+  const result = task.result;
+  return (
+    Buffer.byteLength(result?.stdout ?? '') +
+    Buffer.byteLength(result?.stderr ?? '') +
+    Buffer.byteLength(result?.changes?.patch ?? '') +
+    Buffer.byteLength(task.worktree?.diff ?? '')
+  );
+}
+
+/**
+ * Work out which tasks a retention policy evicts
+ */
+export function planRetention(tasks: Task[], policy: RetentionPolicy, now: number = Date.now()): RetentionPlan {
+  const sizes = new Map(tasks.map((task) => [task.id, getTaskOutputBytes(task)]));
+  const needed = new Set(
+    tasks.filter((task) => !isFinished(task)).flatMap((task) => [...(task.dependsOn ?? []), task.parentTaskId ?? ''])
+  );
+
+  // Oldest finished first
+  const candidates = tasks
+    .filter((task) => isFinished(task) && !task.pinned && !needed.has(task.id) && task.worktree?.state !== 'active')
+    .sort((a, b) => finishedAt(a) - finishedAt(b));
+
+  let count = tasks.length;
+  let outputBytes = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+  const before = { tasks: count, outputBytes };
+
+  const evictions: Eviction[] = [];
+  for (const task of candidates) {
+    let reason: EvictionReason | undefined;
+    if (policy.maxAgeMs !== undefined && now - finishedAt(task) > policy.maxAgeMs) {
+      reason = 'age';
+    } else if (policy.maxTasks !== undefined && count > policy.maxTasks) {
+      reason = 'count';
+    } else if (policy.maxOutputBytes !== undefined && outputBytes > policy.maxOutputBytes) {
+      reason = 'output';
+    }
+    if (!reason) {
+      continue;
+    }
+
+    const size = sizes.get(task.id)!;
+    evictions.push({ task, reason, outputBytes: size });
+    count--;
+    outputBytes -= size;
+  }
+
+  return { evictions, before, after: { tasks: count, outputBytes } };
+}
+
+function isFinished(task: Task): boolean {
+  return task.status !== 'blocked' && task.status !== 'pending' && task.status !== 'running';
+}
+
+function finishedAt(task: Task): number {
+  return (task.completedAt ?? task.createdAt).getTime();
+}
@@ -0,0 +1,237 @@
+/**
+ * Task Scheduler
+ *
+ * Priority queue in front of a fixed number of execution slots. Higher
+ * priorities start first, tasks of equal priority start in the order they were
+ * queued, and a freed slot is handed to the next task as soon as the previous
+ * run settles (no polling). Start times are estimated from the durations of
+ * recent runs.
+ *
+ * Tasks may carry a concurrency key (e.g. the repository they edit): tasks
+ * sharing a key run one at a time, and a queued task whose key is held is
+ * passed over until the holder finishes, so other tasks can use the slot.
+ *
+ * The scheduler knows nothing about how tasks run: it is given a `run`
+ * function and a clock, so it can be driven by fakes in tests.
+ */
+
+import { logger } from '../utils/logger.js';
+
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export const TASK_PRIORITIES: readonly TaskPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 };
+
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface SchedulerOptions {
+  /** Number of tasks allowed to run at the same time */
+  maxConcurrent: number;
+  /** Run a task; its slot is freed once the returned promise settles */
+  run: (id: string) => Promise<void>;
+  clock?: Clock;
+}
+
+/**
+ * A queued task and when it is expected to start
+ */
+export interface QueuePosition {
+  id: string;
+  priority: TaskPriority;
+  /** 1-based position in the queue */
+  position: number;
+  queuedAt: Date;
+  /** Unknown until a run has finished to estimate from */
+  estimatedStartAt?: Date;
+  concurrencyKey?: string;
+  /** Running task holding the concurrency key this task waits for */
+  waitingForLockHeldBy?: string;
+}
+
+interface QueueEntry {
+  id: string;
+  priority: TaskPriority;
+  queuedAt: number;
+  key?: string;
+}
+
+interface RunningEntry {
+  startedAt: number;
+  key?: string;
+}
+
+/** Number of recent run durations the estimates are based on */
+const DURATION_HISTORY = 20;
+
+export class TaskScheduler {
+  /** Ordered by priority (highest first), then by arrival */
+  private queue: QueueEntry[] = [];
+  private running = new Map<string, RunningEntry>();
+  private durations: number[] = [];
+  private clock: Clock;
+
+  constructor(private options: SchedulerOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Queue a task; it starts right away if a slot is free and its concurrency key is not held
+   */
+  enqueue(id: string, priority: TaskPriority = 'normal', key?: string): void {
+    if (this.running.has(id) || this.queue.some((entry) => entry.id === id)) {
+      return;
+    }
+
+    // Insert behind every entry of the same or a higher priority (FIFO within a priority)
+    const rank = PRIORITY_RANK[priority];
+    const index = this.queue.findIndex((entry) => PRIORITY_RANK[entry.priority] < rank);
+    const entry = { id, priority, queuedAt: this.clock.now(), key };
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+
+    this.dispatch();
+  }
+
+  /**
+   * Take a task out of the queue (it has not started yet)
+   */
+  remove(id: string): boolean {
+    const index = this.queue.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Number of tasks currently holding a slot
+   */
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * 1-based queue position of a task, or undefined if it is not queued
+   */
+  getPosition(id: string): number | undefined {
+    const index = this.queue.findIndex((entry) => entry.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Running task holding a concurrency key, if any
+   */
+  getLockHolder(key: string): string | undefined {
+    for (const [id, entry] of this.running) {
+      if (entry.key === key) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The queue in start order, with estimated start times
+   */
+  getQueue(): QueuePosition[] {
+    const now = this.clock.now();
+    const average = this.averageDuration();
+    const after = (time: number | undefined) => (time === undefined || average === undefined ? undefined : time + average);
+
+    // When each slot and each held key is expected to free up
+    const slots: Array<number | undefined> = [];
+    const keys = new Map<string, number | undefined>();
+    for (const entry of this.running.values()) {
+      const freeAt = average === undefined ? undefined : Math.max(now, entry.startedAt + average);
+      slots.push(freeAt);
+      if (entry.key !== undefined) {
+        keys.set(entry.key, freeAt);
+      }
+    }
+    while (slots.length < this.options.maxConcurrent) {
+      slots.push(now);
+    }
+
+    return this.queue.map((entry, index) => {
+      const slot = earliest(slots);
+      const keyFreeAt = entry.key !== undefined && keys.has(entry.key) ? keys.get(entry.key) : now;
+      const estimatedStartAt =
+        slot.time === undefined || keyFreeAt === undefined ? undefined : Math.max(slot.time, keyFreeAt);
+
+      slots[slot.index] = after(estimatedStartAt);
+      if (entry.key !== undefined) {
+        keys.set(entry.key, after(estimatedStartAt));
+      }
+
+      return {
+        id: entry.id,
+        priority: entry.priority,
+        position: index + 1,
+        queuedAt: new Date(entry.queuedAt),
+        estimatedStartAt: estimatedStartAt === undefined ? undefined : new Date(estimatedStartAt),
+        concurrencyKey: entry.key,
+        waitingForLockHeldBy: entry.key !== undefined ? this.getLockHolder(entry.key) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Start queued tasks while slots are free, passing over tasks whose key is held
+   */
+  private dispatch(): void {
+    for (let i = 0; i < this.queue.length && this.running.size < this.options.maxConcurrent; ) {
+      const entry = this.queue[i];
+      if (entry.key !== undefined && this.getLockHolder(entry.key) !== undefined) {
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      this.start(entry);
+    }
+  }
+
+  private start({ id, key }: QueueEntry): void {
+    const startedAt = this.clock.now();
+    this.running.set(id, { startedAt, key });
+
+    Promise.resolve()
+      .then(() => this.options.run(id))
+      .catch((error) => {
+        logger.error(`Task ${id} run failed: ${error}`);
+      })
+      .finally(() => {
+        this.running.delete(id);
+        this.durations = [...this.durations, this.clock.now() - startedAt].slice(-DURATION_HISTORY);
+        this.dispatch();
+      });
+  }
+
+  private averageDuration(): number | undefined {
+    if (this.durations.length === 0) {
+      return undefined;
+    }
+    return this.durations.reduce((sum, duration) => sum + duration, 0) / this.durations.length;
+  }
+}
+
+/**
+ * The slot that frees up first (known times before unknown ones)
+ */
+function earliest(slots: Array<number | undefined>): { index: number; time: number | undefined } {
+  let best = 0;
+  for (let i = 1; i < slots.length; i++) {
+    const time = slots[i];
+    if (time !== undefined && (slots[best] === undefined || time < slots[best]!)) {
+      best = i;
+    }
+  }
+  return { index: best, time: slots[best] };
+}
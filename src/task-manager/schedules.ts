@@ -0,0 +1,331 @@
+/**
+ * Task Schedules
+ *
+ * Creates tasks on a schedule: recurring (cron expression) or once (at a given
+ * time). Schedules and their run history are kept in the task store.
+ *
+ * Runs that fell due while the server was down follow the schedule's catch-up
+ * policy:
+ * - `skip`: record them as missed and wait for the next run (default)
+ * - `once`: run once for all of them
+ * - `all`: run each of them (up to MAX_CATCH_UP_RUNS)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { CronExpression, nextCronRun, parseCron } from './cron.js';
+import { Clock, systemClock } from './scheduler.js';
+import type { CreateTaskOptions } from './task-manager.js';
+import type { TaskStore } from './task-store.js';
+
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = ['skip', 'once', 'all'];
+
+/**
+ * One due run of a schedule
+ */
+export interface ScheduleRun {
+  /** When the run was due */
+  scheduledFor: Date;
+  /** When the task was created (unset for missed runs) */
+  firedAt?: Date;
+  taskId?: string;
+  /** Why no task could be created */
+  error?: string;
+  /** Not run: it fell due while the server was down and the catch-up policy dropped it */
+  missed?: boolean;
+  /** Run late, by the catch-up policy */
+  catchUp?: boolean;
+}
+
+export interface Schedule {
+  id: string;
+  name?: string;
+  /** Cron expression of a recurring schedule */
+  cron?: string;
+  /** Time of a one-off schedule */
+  runAt?: Date;
+  /** Options of the tasks it creates */
+  task: CreateTaskOptions;
+  catchUp: CatchUpPolicy;
+  /** `completed` once a one-off schedule has run */
+  state: 'active' | 'completed';
+  createdAt: Date;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  /** Number of tasks created so far */
+  runCount: number;
+  /** Most recent runs, oldest first */
+  runs: ScheduleRun[];
+}
+
+export interface CreateScheduleOptions {
+  name?: string;
+  /** Cron expression (exactly one of cron and runAt) */
+  cron?: string;
+  /** One-off run time */
+  runAt?: Date;
+  /** Catch-up policy for missed runs (default: the manager's default) */
+  catchUp?: CatchUpPolicy;
+  task: CreateTaskOptions;
+}
+
+export interface ScheduleManagerOptions {
+  store: TaskStore;
+  /** Create a task for a due run */
+  createTask: (options: CreateTaskOptions) => Promise<string>;
+  /** Reject task options that would fail on every run */
+  validateTask?: (options: CreateTaskOptions) => void;
+  /** Catch-up policy of schedules that do not set one (default: 'skip') */
+  defaultCatchUp?: CatchUpPolicy;
+  clock?: Clock;
+}
+
+/** Runs kept in a schedule's history */
+const RUN_HISTORY = 50;
+
+/** Most missed runs replayed by the `all` policy */
+const MAX_CATCH_UP_RUNS = 10;
+
+/** A run this much past due is considered missed rather than merely late */
+const LATE_AFTER_MS = 60 * 1000;
+
+/** Longest delay setTimeout accepts; longer waits are re-armed */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export class ScheduleManager {
+  private schedules = new Map<string, Schedule>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private crons = new Map<string, CronExpression>();
+  private clock: Clock;
+
+  constructor(private options: ScheduleManagerOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Load stored schedules, catch up on runs missed while the server was down and arm the timers
+   */
+  async start(): Promise<void> {
+    const schedules = this.options.store.loadSchedules();
+    for (const schedule of schedules) {
+      this.schedules.set(schedule.id, schedule);
+    }
+
+    for (const schedule of schedules) {
+      if (schedule.state === 'active') {
+        await this.process(schedule);
+      }
+    }
+
+    if (schedules.length > 0) {
+      logger.info(`Loaded ${schedules.length} schedule(s)`);
+    }
+  }
+
+  /**
+   * Clear all timers
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Create a schedule
+   */
+  create(options: CreateScheduleOptions): Schedule {
+    if ((options.cron === undefined) === (options.runAt === undefined)) {
+      throw new McpServerError(ErrorCode.INVALID_INPUT, 'Give either a cron expression or a run time (ISO timestamp), not both');
+    }
+
+    const now = this.clock.now();
+    let nextRunAt: Date;
+    if (options.cron !== undefined) {
+      nextRunAt = nextCronRun(parseCron(options.cron), new Date(now));
+    } else {
+      if (Number.isNaN(options.runAt!.getTime())) {
+        throw new McpServerError(ErrorCode.INVALID_INPUT, 'Invalid run time; use an ISO 8601 timestamp');
+      }
+      if (options.runAt!.getTime() <= now) {
+        throw new McpServerError(
+          ErrorCode.INVALID_INPUT,
+          `Run time ${options.runAt!.toISOString()} is in the past; use create-task to run a task now`,
+          { runAt: options.runAt!.toISOString() }
+        );
+      }
+      nextRunAt = options.runAt!;
+    }
+
+    this.options.validateTask?.(options.task);
+
+    const schedule: Schedule = {
+      id: uuidv4(),
+      name: options.name,
+      cron: options.cron?.trim(),
+      runAt: options.runAt,
+      task: options.task,
+      catchUp: options.catchUp ?? this.options.defaultCatchUp ?? 'skip',
+      state: 'active',
+      createdAt: new Date(now),
+      nextRunAt,
+      runCount: 0,
+      runs: [],
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    this.options.store.saveSchedule(schedule);
+    this.arm(schedule);
+    logger.info(`Schedule ${schedule.id} created, next run at ${nextRunAt.toISOString()}`);
+    return schedule;
+  }
+
+  /**
+   * All schedules, oldest first
+   */
+  list(): Schedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  get(id: string): Schedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  /**
+   * Delete a schedule (tasks it already created are kept)
+   */
+  delete(id: string): boolean {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      return false;
+    }
+
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.crons.delete(id);
+    this.schedules.delete(id);
+    this.options.store.deleteSchedule(id);
+    logger.info(`Schedule ${id} deleted`);
+    return true;
+  }
+
+  /**
+   * Run everything that is due - on time, or late per the catch-up policy - then arm the next run
+   */
+  private async process(schedule: Schedule): Promise<void> {
+    const now = this.clock.now();
+
+    const due: Date[] = [];
+    let next = schedule.nextRunAt;
+    while (next && next.getTime() <= now && due.length < MAX_CATCH_UP_RUNS) {
+      due.push(next);
+      next = this.following(schedule, next);
+    }
+    if (next && next.getTime() <= now) {
+      // More missed runs than are worth listing one by one
+      next = this.following(schedule, new Date(now));
+    }
+
+    const late = due.filter((at) => now - at.getTime() > LATE_AFTER_MS);
+    const onTime = due.filter((at) => now - at.getTime() <= LATE_AFTER_MS);
+
+    let catchUp: Date[] = [];
+    if (schedule.catchUp === 'all') {
+      catchUp = late;
+    } else if (schedule.catchUp === 'once' && onTime.length === 0 && late.length > 0) {
+      catchUp = [late[late.length - 1]];
+    }
+
+    for (const at of late.filter((at) => !catchUp.includes(at))) {
+      this.record(schedule, { scheduledFor: at, missed: true });
+    }
+    if (late.length > catchUp.length) {
+      logger.warn(`Schedule ${schedule.id}: ${late.length - catchUp.length} run(s) missed while the server was down`);
+    }
+
+    for (const at of catchUp) {
+      await this.fire(schedule, at, true);
+    }
+    for (const at of onTime) {
+      await this.fire(schedule, at, false);
+    }
+
+    // Deleted while the tasks were being created
+    if (!this.schedules.has(schedule.id)) {
+      return;
+    }
+
+    schedule.nextRunAt = next;
+    if (!next) {
+      schedule.state = 'completed';
+    }
+    this.options.store.saveSchedule(schedule);
+    this.arm(schedule);
+  }
+
+  /**
+   * Create the task of one run
+   */
+  private async fire(schedule: Schedule, scheduledFor: Date, catchUp: boolean): Promise<void> {
+    const firedAt = new Date(this.clock.now());
+    try {
+      const taskId = await this.options.createTask({ ...schedule.task, scheduleId: schedule.id });
+      schedule.runCount++;
+      this.record(schedule, { scheduledFor, firedAt, taskId, catchUp: catchUp || undefined });
+      logger.info(`Schedule ${schedule.id} created task ${taskId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.record(schedule, { scheduledFor, firedAt, error: message, catchUp: catchUp || undefined });
+      logger.error(`Schedule ${schedule.id} could not create its task: ${message}`);
+    }
+    schedule.lastRunAt = firedAt;
+  }
+
+  private record(schedule: Schedule, run: ScheduleRun): void {
+    schedule.runs = [...schedule.runs, run].slice(-RUN_HISTORY);
+  }
+
+  /**
+   * Run time after the given one (undefined for one-off schedules)
+   */
+  private following(schedule: Schedule, after: Date): Date | undefined {
+    if (!schedule.cron) {
+      return undefined;
+    }
+    let cron = this.crons.get(schedule.id);
+    if (!cron) {
+      cron = parseCron(schedule.cron);
+      this.crons.set(schedule.id, cron);
+    }
+    return nextCronRun(cron, after);
+  }
+
+  /**
+   * Set the timer for the next run
+   */
+  private arm(schedule: Schedule): void {
+    clearTimeout(this.timers.get(schedule.id));
+    this.timers.delete(schedule.id);
+    if (schedule.state !== 'active' || !schedule.nextRunAt) {
+      return;
+    }
+
+    const delay = Math.max(0, schedule.nextRunAt.getTime() - this.clock.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(schedule.id);
+      if (this.clock.now() < schedule.nextRunAt!.getTime()) {
+        // Woke early: the delay was capped
+        this.arm(schedule);
+      } else {
+        void this.process(schedule);
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
+    // Schedules alone must not keep the process alive
+    timer.unref();
+    this.timers.set(schedule.id, timer);
+  }
+}
@@ -4,133 +4,1250 @@
  * Manages concurrent task execution with status tracking.
  */
 
+import { existsSync, realpathSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve } from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
-import { executeClaudeTask, ExecutionResult } from '../claude/executor.js';
+import {
+  executeClaudeTask,
+  ExecutionOptions,
+  ExecutionResult,
+  OutputFormat,
+  RunUsage,
+} from '../claude/executor.js';
+import type { StructuredResult } from '../claude/stream-json.js';
+import type { ExecutionEvent } from '../claude/progress.js';
+import { AttemptRecord, FailureClass, RetryPolicy, resolveRetryPolicy } from '../claude/retry.js';
+import type { ChangeSummary, FileChange } from '../workspace/snapshot.js';
+import {
+  CheckpointState,
+  TaskCheckpoint,
+  createCheckpoint,
+  getCheckpointChanges,
+  getCheckpointLocation,
+  removeCheckpoint,
+  restoreCheckpoint,
+} from '../workspace/checkpoint.js';
+import { getBackend } from '../backends/index.js';
+import { getRepoRoot } from '../git/git.js';
+import {
+  ApplyStrategy,
+  TaskWorktree,
+  WorktreeCommit,
+  WorktreeState,
+  applyTaskWorktree,
+  createTaskWorktree,
+  discardTaskWorktree,
+  finalizeTaskWorktree,
+} from '../git/worktree.js';
 import { logger } from '../utils/logger.js';
+import { ErrorCode, McpServerError, isMcpServerError } from '../utils/error-handler.js';
+import { SpendSummary, UsageLedger } from './usage-ledger.js';
+import { MemoryTaskStore, TaskStore, createTaskStore } from './task-store.js';
+import {
+  DEFAULT_KILL_GRACE_MS,
+  getProcessIdentity,
+  isProcessTreeAlive,
+  killOrphanedProcessTree,
+} from '../claude/process-tree.js';
+import { Clock, QueuePosition, TaskPriority, TaskScheduler } from './scheduler.js';
+import {
+  DependencyState,
+  RunCondition,
+  WorkflowRef,
+  WorkflowSummary,
+  evaluateDependencies,
+  orderWorkflowSteps,
+  summarizeWorkflow,
+} from './workflow.js';
+import { CatchUpPolicy, CreateScheduleOptions, Schedule, ScheduleManager } from './schedules.js';
+import { EvictionReason, RetentionPolicy, getTaskOutputBytes, planRetention } from './retention.js';
+import { TaskPage, TaskQuery, queryTasks } from './task-query.js';
+import { OutputTail, TailOptions, extractAssistantText, tailText } from './output-tail.js';
 
-export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type TaskStatus = 'blocked' | 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * What happens on startup to tasks a previous server instance left pending or running:
+ * mark them `interrupted`, or queue them to run again
+ */
+export type RecoveryPolicy = 'interrupt' | 'requeue';
+
+/**
+ * Where a task runs: directly in its working directory, or in a temporary git worktree
+ */
+export type IsolationMode = 'none' | 'worktree';
+
+/**
+ * Runs one task (executeClaudeTask, or a fake in tests)
+ */
+export type TaskExecutor = (options: ExecutionOptions) => Promise<ExecutionResult>;
 
 export interface Task {
   id: string;
   task: string;
   workingDirectory?: string;
   timeout: number;
+  /** Inactivity timeout in seconds (undefined: IDLE_TIMEOUT, else disabled) */
+  idleTimeout?: number;
+  /** Retry policy for transient failures */
+  retry?: RetryPolicy;
+  /** Attempts finished so far, oldest first */
+  attempts: AttemptRecord[];
   additionalArgs?: string[];
+  outputFormat: OutputFormat;
+  /** Agent backend name */
+  backend: string;
+  /** Queue priority; tasks of equal priority start in creation order */
+  priority: TaskPriority;
+  /** Tasks with the same key run one at a time (undefined: no lock) */
+  concurrencyKey?: string;
+  /** Declared not to modify files, so it takes no lock */
+  readOnly: boolean;
+  /** Tasks that must finish first; the task is `blocked` until then */
+  dependsOn?: string[];
+  /** Which dependency outcomes let the task run (default: 'success') */
+  runIf?: RunCondition;
+  /** Workflow the task is a step of */
+  workflow?: WorkflowRef;
+  /** Schedule that created the task */
+  scheduleId?: string;
+  /** Exempt from retention cleanup */
+  pinned?: boolean;
+  /** User-defined labels, for filtering */
+  tags?: string[];
   status: TaskStatus;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   result?: ExecutionResult;
   error?: string;
+  /** Machine-readable failure classification */
+  errorCode?: ErrorCode;
+  /** Stop retrying once the task has cost this much (USD) */
+  maxCostUsd?: number;
+  /** Process id of the current run (used to find orphaned processes after a restart) */
+  pid?: number;
+  /** Start time of that process, so a later process reusing the pid is never mistaken for it */
+  processIdentity?: string;
+  /** Claude Code session id reported by the run */
+  sessionId?: string;
+  /** Session this task resumes (set for follow-ups) */
+  resumeSessionId?: string;
+  /** Task this one continues */
+  parentTaskId?: string;
+  /** MCP session that created the task (HTTP transport) */
+  clientSessionId?: string;
+  isolation: IsolationMode;
+  /** Worktree the task runs in (shared along a continue-task chain) */
+  worktree?: TaskWorktree;
+  /** Record the files the task changed */
+  captureChanges: boolean;
+  /** Checkpoint the working directory before the task runs */
+  checkpointEnabled: boolean;
+  /** State of the working directory before the task ran */
+  checkpoint?: TaskCheckpoint;
 }
 
 export interface CreateTaskOptions {
   task: string;
   workingDirectory?: string;
   timeout?: number;
+  /** Kill the task after this many seconds without output */
+  idleTimeout?: number;
+  /** Retry transient failures (rate limits, overloads, network errors); only permanent failures fail the task */
+  retry?: RetryPolicy;
+  /** Per-task budget in USD, enforced by the CLI and the executor (default: the manager's maxTaskCostUsd) */
+  maxCostUsd?: number;
   additionalArgs?: string[];
+  /** CLI output format (default: 'text') */
+  outputFormat?: OutputFormat;
+  /** Agent backend name (default: 'claude') */
+  backend?: string;
+  /** Queue priority (default: 'normal') */
+  priority?: TaskPriority;
+  /**
+   * Tasks with the same key run one at a time
+   * (default: the repository root of the working directory, or the directory itself outside git)
+   */
+  concurrencyKey?: string;
+  /** The task does not modify files: skip the concurrency lock (default: false) */
+  readOnly?: boolean;
+  /** IDs of tasks that must finish before this one starts */
+  dependsOn?: string[];
+  /** Start when all dependencies succeeded (default), when one failed, or always once they finished */
+  runIf?: RunCondition;
+  /** Schedule creating the task (set by the schedule runner) */
+  scheduleId?: string;
+  /** Keep the task when finished tasks are cleaned up (default: false) */
+  pinned?: boolean;
+  /** Labels to find the task by (see TaskQuery) */
+  tags?: string[];
+  /** Run in a temporary git worktree on a fresh branch (default: 'none') */
+  isolation?: IsolationMode;
+  /** Record the files the task changed, with line counts and a patch (default: false) */
+  captureChanges?: boolean;
+  /** Checkpoint the working directory first so the task can be rolled back (default: false) */
+  checkpoint?: boolean;
+  /** MCP session creating the task (HTTP transport) */
+  clientSessionId?: string;
+}
+
+export interface WorkflowStepOptions extends CreateTaskOptions {
+  /** Step id, unique within the workflow; `dependsOn` may name step ids or existing task IDs */
+  id: string;
+}
+
+export interface CreateWorkflowOptions {
+  name?: string;
+  /** Default working directory of the steps */
+  workingDirectory?: string;
+  /** Cancel the remaining steps as soon as one fails (steps running on failure or always still run) */
+  failFast?: boolean;
+  steps: WorkflowStepOptions[];
+}
+
+export interface ContinueTaskOptions {
+  /** Follow-up prompt */
+  task: string;
+  /** Timeout in seconds (defaults to the parent's timeout) */
+  timeout?: number;
+  /** Inactivity timeout in seconds (defaults to the parent's) */
+  idleTimeout?: number;
+  /** Retry policy (defaults to the parent's) */
+  retry?: RetryPolicy;
+  /** Per-task budget in USD (defaults to the parent's) */
+  maxCostUsd?: number;
+  /** Additional CLI arguments (defaults to the parent's arguments) */
+  additionalArgs?: string[];
+  /** Queue priority (defaults to the parent's) */
+  priority?: TaskPriority;
+  /** MCP session creating the follow-up (HTTP transport) */
+  clientSessionId?: string;
 }
 
 export interface TaskInfo {
   id: string;
   task: string;
   workingDirectory?: string;
+  backend: string;
+  priority: TaskPriority;
   status: TaskStatus;
+  /** 1-based position in the queue (pending tasks only) */
+  queuePosition?: number;
+  concurrencyKey?: string;
+  readOnly: boolean;
+  /** Running task holding the lock this pending task waits for */
+  waitingForLockHeldBy?: string;
+  dependsOn?: string[];
+  runIf?: RunCondition;
+  /** Dependencies a blocked task is still waiting for */
+  blockedOn?: string[];
+  workflow?: {
+    id: string;
+    name?: string;
+    step: string;
+  };
+  scheduleId?: string;
+  pinned: boolean;
+  tags?: string[];
+  /** Output held by the task (stdout, stderr, patches and diffs) */
+  outputBytes: number;
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   error?: string;
+  /** Machine-readable failure classification (e.g. EXECUTION_IDLE) */
+  errorCode?: ErrorCode;
   success?: boolean;
   exitCode?: number | null;
+  sessionId?: string;
+  parentTaskId?: string;
+  /** MCP session that created the task (HTTP transport) */
+  clientSessionId?: string;
+  isolation: IsolationMode;
+  /** Current (or final) attempt, when the task has a retry policy */
+  attempt?: {
+    number: number;
+    maxAttempts: number;
+    /** Failure class of the attempt before this one */
+    previousFailure?: FailureClass;
+  };
+  /** Finished attempts, oldest first (only when there was more than one) */
+  attempts?: Array<{
+    attempt: number;
+    startedAt: string;
+    completedAt: string;
+    success: boolean;
+    failureClass?: FailureClass;
+    error?: string;
+    retryDelayMs?: number;
+  }>;
+  /** Tokens and cost reported by the CLI (stream-json tasks, once finished) */
+  usage?: RunUsage;
+  maxCostUsd?: number;
+  /** Number of files the task changed (once finished, if captured) */
+  filesChanged?: number;
+  worktree?: {
+    branch: string;
+    path: string;
+    baseCommit: string;
+    state: WorktreeState;
+    commitCount?: number;
+  };
+  checkpoint?: {
+    kind: 'git' | 'files';
+    /** Hidden ref (git) or directory holding the copy */
+    location: string;
+    state: CheckpointState;
+  };
+}
+
+export interface BudgetOptions {
+  /** Rolling 24-hour spend cap in USD; new tasks are rejected once it is reached */
+  dailyBudgetUsd?: number;
+  /** Default per-task budget in USD */
+  maxTaskCostUsd?: number;
 }
 
+export interface TaskManagerOptions extends BudgetOptions {
+  /** Where tasks are kept across restarts (default: in memory only) */
+  store?: TaskStore;
+  /** Handling of tasks left pending or running by a previous server (default: 'interrupt') */
+  recovery?: RecoveryPolicy;
+  /** Runs tasks (default: executeClaudeTask) */
+  executor?: TaskExecutor;
+  /** Time source of the scheduler's estimates and of schedules (default: the system clock) */
+  clock?: Clock;
+  /** Catch-up policy of schedules that do not set one (default: 'skip') */
+  catchUp?: CatchUpPolicy;
+  /** Limits enforced on finished tasks after each run and periodically (default: none) */
+  retention?: RetentionPolicy;
+}
+
+export interface CleanupOptions extends RetentionPolicy {
+  /** Only report what would be removed */
+  dryRun?: boolean;
+}
+
+export interface CleanupReport {
+  dryRun: boolean;
+  /** Limits that were applied */
+  policy: RetentionPolicy;
+  removed: Array<{
+    id: string;
+    task: string;
+    status: TaskStatus;
+    completedAt?: string;
+    reason: EvictionReason;
+    outputBytes: number;
+  }>;
+  before: { tasks: number; outputBytes: number };
+  after: { tasks: number; outputBytes: number };
+}
+
+export interface RollbackOptions {
+  /** Roll back even if later tasks modified the same files */
+  force?: boolean;
+}
+
+/**
+ * Something that happened to a task
+ */
+export type TaskEvent =
+  | { type: 'status'; taskId: string; status: TaskStatus; previousStatus?: TaskStatus }
+  /** Progress of a running task, as reported by the executor */
+  | { type: 'progress'; taskId: string; event: ExecutionEvent }
+  /** A running task's output grew (or a retry started it afresh) */
+  | { type: 'output'; taskId: string; stream: OutputStream }
+  | { type: 'deleted'; taskId: string };
+
+export type TaskEventListener = (event: TaskEvent) => void;
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface TaskOutput {
+  text: string;
+  /** The run is over, so the output will not change any more */
+  complete: boolean;
+  /** Attempt the output belongs to (each attempt starts its output afresh) */
+  attempt?: number;
+}
+
+export interface WaitForTasksOptions {
+  /** Return once any of the tasks has finished, or only once all of them have (default: 'all') */
+  mode?: 'any' | 'all';
+  /** Give up after this many milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+  /** Stop waiting when aborted, like a timeout */
+  signal?: AbortSignal;
+}
+
+export interface WaitResult {
+  /** Whether the wait condition was met before the timeout */
+  satisfied: boolean;
+  waitedMs: number;
+  /** Current state of the tasks waited for (deleted ones are left out) */
+  tasks: TaskInfo[];
+  /** Tasks deleted while waiting */
+  deleted: string[];
+}
+
+export interface TailTaskOutputOptions extends TailOptions {
+  /** Only the assistant's text, without the stream-json events around it (stream-json tasks only) */
+  assistantOnly?: boolean;
+}
+
+export interface TaskOutputTail extends OutputTail {
+  status: TaskStatus;
+  /** Attempt the output belongs to (each attempt starts its output afresh) */
+  attempt?: number;
+  /** The run is over, so no more output will follow */
+  complete: boolean;
+}
+
+/** Statuses a task does not leave on its own */
+export const FINISHED_STATUSES: readonly TaskStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+/** How often retention limits are checked when no task finishes */
+const RETENTION_INTERVAL_MS = 10 * 60 * 1000;
+
 /**
  * Manages concurrent task execution
  */
 export class TaskManager {
   private tasks: Map<string, Task> = new Map();
-  private maxConcurrent: number;
+  /** Abort controllers of running tasks (aborting kills the process tree) */
+  private runs: Map<string, AbortController> = new Map();
+  /** Runs holding a scheduler slot, settled once the task's record is final */
+  private activeRuns = new Set<Promise<void>>();
+  /** Set by shutdown: queued tasks are no longer started */
+  private stopping = false;
+  /** Output of running tasks so far (finished tasks keep theirs in the result) */
+  private liveOutput = new Map<string, { attempt: number } & Record<OutputStream, string>>();
+  private scheduler: TaskScheduler;
+  private schedules: ScheduleManager;
+  private executor: TaskExecutor;
+  private budget: BudgetOptions;
+  /** Usage of finished tasks (kept when tasks are deleted) */
+  private ledger = new UsageLedger();
+  private store: TaskStore;
+  private recovery: RecoveryPolicy;
+  private retention: RetentionPolicy;
+  private retentionTimer?: NodeJS.Timeout;
+  private listeners = new Set<TaskEventListener>();
+  /** Status each task had when its listeners were last told */
+  private reportedStatus = new Map<string, TaskStatus>();
+
+  constructor(maxConcurrent: number = 3, options: TaskManagerOptions = {}) {
+    this.scheduler = new TaskScheduler({
+      maxConcurrent,
+      run: async (id) => {
+        const run = this.runTask(id);
+        this.activeRuns.add(run);
+        try {
+          await run;
+        } finally {
+          this.activeRuns.delete(run);
+        }
+        const task = this.tasks.get(id);
+        if (task) {
+          this.onTaskFinished(task);
+        }
+      },
+      clock: options.clock,
+    });
+    this.executor = options.executor ?? executeClaudeTask;
+    this.budget = { dailyBudgetUsd: options.dailyBudgetUsd, maxTaskCostUsd: options.maxTaskCostUsd };
+    this.store = options.store ?? new MemoryTaskStore();
+    this.recovery = options.recovery ?? 'interrupt';
+    this.retention = options.retention ?? {};
+    this.schedules = new ScheduleManager({
+      store: this.store,
+      createTask: (taskOptions) => this.createTask(taskOptions),
+      validateTask: (taskOptions) => this.validateTaskOptions(taskOptions),
+      defaultCatchUp: options.catchUp,
+      clock: options.clock,
+    });
+  }
+
+  /**
+   * Load stored tasks and usage, then reconcile tasks a previous server left pending or running:
+   * orphaned processes are killed and the tasks are interrupted or re-queued per the recovery policy.
+   * Finally start the schedules, catching up on runs missed in the meantime.
+   */
+  async initialize(): Promise<void> {
+    for (const entry of this.store.loadUsage()) {
+      this.ledger.record(entry);
+    }
+
+    const tasks = this.store.loadTasks();
+    relinkWorktrees(tasks);
+    for (const task of tasks) {
+      this.tasks.set(task.id, task);
+      this.reportedStatus.set(task.id, task.status);
+    }
+
+    const unfinished = tasks.filter((task) => task.status === 'pending' || task.status === 'running');
+    for (const task of unfinished) {
+      await this.recoverTask(task);
+    }
+    // Interrupted tasks may decide the fate of blocked ones
+    this.settleBlockedTasks();
+
+    logger.info(`Loaded ${tasks.length} stored task(s)${unfinished.length > 0 ? `, recovered ${unfinished.length}` : ''}`);
 
-  constructor(maxConcurrent: number = 3) {
-    this.maxConcurrent = maxConcurrent;
+    await this.schedules.start();
+
+    // Age limits are reached without any task finishing
+    this.cleanup();
+    clearInterval(this.retentionTimer);
+    this.retentionTimer = setInterval(() => this.cleanup(), RETENTION_INTERVAL_MS);
+    this.retentionTimer.unref();
+  }
+
+  /**
+   * Reconcile one task left pending or running by a previous server instance
+   */
+  private async recoverTask(task: Task): Promise<void> {
+    const wasRunning = task.status === 'running';
+
+    if (wasRunning && task.pid !== undefined && isProcessTreeAlive(task.pid)) {
+      // After a reboot or once pids wrap around, the pid may belong to an unrelated process
+      if (task.processIdentity !== undefined && getProcessIdentity(task.pid) === task.processIdentity) {
+        // Its output pipes died with the old server, so the run cannot be observed any more
+        logger.warn(`Task ${task.id}: killing orphaned process tree ${task.pid} left by the previous server`);
+        killOrphanedProcessTree(task.pid);
+      } else {
+        logger.info(`Task ${task.id}: process ${task.pid} is no longer the task's agent, leaving it alone`);
+      }
+    }
+    task.pid = undefined;
+    task.processIdentity = undefined;
+
+    if (this.recovery === 'requeue') {
+      logger.info(`Task ${task.id} re-queued after restart`);
+      task.status = 'pending';
+      task.startedAt = undefined;
+      this.saveTask(task);
+      this.executeTask(task.id);
+      return;
+    }
+
+    task.status = 'interrupted';
+    task.error = wasRunning ? 'Interrupted by a server restart' : 'Server restarted before the task started';
+    task.errorCode = ErrorCode.TASK_INTERRUPTED;
+    task.completedAt = new Date();
+    if (wasRunning) {
+      // Keep whatever an isolated task had done so far
+      await this.finalizeWorktree(task);
+    }
+    this.saveTask(task);
+    logger.info(`Task ${task.id} marked interrupted`);
   }
 
   /**
    * Create a new task and start executing it
    */
   async createTask(options: CreateTaskOptions): Promise<string> {
+    this.validateTaskOptions(options);
+    this.assertWithinDailyBudget();
+
+    for (const dependency of options.dependsOn ?? []) {
+      if (!this.tasks.has(dependency)) {
+        throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Dependency ${dependency} does not exist`, { taskId: dependency });
+      }
+    }
+
+    return this.enqueueTask(this.newTask(options));
+  }
+
+  /**
+   * Create the tasks of a workflow: a DAG of steps wired together with dependencies.
+   * Every step is validated before any of them is created.
+   */
+  async createWorkflow(options: CreateWorkflowOptions): Promise<{ id: string; steps: Array<{ step: string; taskId: string }> }> {
+    if (options.steps.length === 0) {
+      throw new McpServerError(ErrorCode.INVALID_INPUT, 'A workflow needs at least one step');
+    }
+
+    const ordered = orderWorkflowSteps(options.steps, (id) => this.tasks.has(id));
+    for (const step of ordered) {
+      this.validateTaskOptions(step);
+    }
+    this.assertWithinDailyBudget();
+
     const id = uuidv4();
-    const task: Task = {
-      id,
+    const taskIds = new Map<string, string>();
+    for (const step of ordered) {
+      const task = this.newTask(
+        {
+          ...step,
+          workingDirectory: step.workingDirectory ?? options.workingDirectory,
+          dependsOn: step.dependsOn?.map((dependency) => taskIds.get(dependency) ?? dependency),
+        },
+        { id, name: options.name, step: step.id, failFast: options.failFast ?? false }
+      );
+      taskIds.set(step.id, await this.enqueueTask(task));
+    }
+
+    logger.info(`Workflow ${id} created with ${ordered.length} step(s)`);
+    return { id, steps: ordered.map((step) => ({ step: step.id, taskId: taskIds.get(step.id)! })) };
+  }
+
+  /**
+   * Overall status of a workflow and its steps, in creation order
+   */
+  getWorkflow(id: string): { summary: WorkflowSummary; steps: TaskInfo[] } {
+    const steps = Array.from(this.tasks.values())
+      .filter((task) => task.workflow?.id === id)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (steps.length === 0) {
+      throw new McpServerError(ErrorCode.WORKFLOW_NOT_FOUND, `Workflow ${id} does not exist`, { workflowId: id });
+    }
+    return { summary: summarizeWorkflow(steps), steps: steps.map((task) => this.toTaskInfo(task)) };
+  }
+
+  /**
+   * Create a schedule that creates tasks from a cron expression or at a given time
+   */
+  scheduleTask(options: CreateScheduleOptions): Schedule {
+    return this.schedules.create(options);
+  }
+
+  /**
+   * All schedules, oldest first
+   */
+  listSchedules(): Schedule[] {
+    return this.schedules.list();
+  }
+
+  /**
+   * Get a schedule, or throw SCHEDULE_NOT_FOUND
+   */
+  getSchedule(id: string): Schedule {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      throw new McpServerError(ErrorCode.SCHEDULE_NOT_FOUND, `Schedule ${id} does not exist`, { scheduleId: id });
+    }
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule; the tasks it created are kept
+   */
+  deleteSchedule(id: string): boolean {
+    return this.schedules.delete(id);
+  }
+
+  /**
+   * Reject options that could only fail in the background
+   */
+  private validateTaskOptions(options: CreateTaskOptions): void {
+    // Fail fast on unknown backends instead of failing in the background
+    getBackend(options.backend);
+
+    if (options.checkpoint && options.isolation === 'worktree') {
+      throw new McpServerError(
+        ErrorCode.INVALID_INPUT,
+        'Checkpoints are not needed with worktree isolation; use discard-task-changes to drop an isolated task\'s changes',
+        { isolation: options.isolation }
+      );
+    }
+  }
+
+  /**
+   * Build a new task from validated options
+   */
+  private newTask(options: CreateTaskOptions, workflow?: WorkflowRef): Task {
+    const dependsOn = options.dependsOn?.length ? [...new Set(options.dependsOn)] : undefined;
+
+    return {
+      id: uuidv4(),
       task: options.task,
       workingDirectory: options.workingDirectory,
       timeout: options.timeout ?? 300,
+      idleTimeout: options.idleTimeout,
+      retry: options.retry,
+      attempts: [],
+      maxCostUsd: options.maxCostUsd ?? this.budget.maxTaskCostUsd,
       additionalArgs: options.additionalArgs,
-      status: 'pending',
+      outputFormat: options.outputFormat ?? 'text',
+      backend: getBackend(options.backend).name,
+      priority: options.priority ?? 'normal',
+      concurrencyKey: options.concurrencyKey,
+      readOnly: options.readOnly ?? false,
+      dependsOn,
+      runIf: dependsOn ? options.runIf ?? 'success' : undefined,
+      workflow,
+      scheduleId: options.scheduleId,
+      pinned: options.pinned || undefined,
+      tags: normalizeTags(options.tags),
+      status: dependsOn ? 'blocked' : 'pending',
       createdAt: new Date(),
+      isolation: options.isolation ?? 'none',
+      captureChanges: options.captureChanges ?? false,
+      checkpointEnabled: options.checkpoint ?? false,
+      clientSessionId: options.clientSessionId,
     };
+  }
+
+  /**
+   * Create a follow-up task that resumes the Claude Code session of an earlier task
+   */
+  async continueTask(parentId: string, options: ContinueTaskOptions): Promise<string> {
+    const parent = this.tasks.get(parentId);
+    if (!parent) {
+      throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${parentId} does not exist`, { taskId: parentId });
+    }
+
+    if (parent.status === 'blocked' || parent.status === 'pending' || parent.status === 'running') {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${parentId} is still ${parent.status}; wait for it to finish before continuing it`,
+        { taskId: parentId, status: parent.status }
+      );
+    }
+
+    if (!getBackend(parent.backend).supportsResume) {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${parentId} ran on backend "${parent.backend}", which does not support resuming sessions`,
+        { taskId: parentId, backend: parent.backend }
+      );
+    }
+
+    if (!parent.sessionId) {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${parentId} has no Claude Code session to resume (sessions are only captured for stream-json tasks)`,
+        { taskId: parentId }
+      );
+    }
+
+    this.assertWithinDailyBudget();
 
+    return this.enqueueTask({
+      id: uuidv4(),
+      task: options.task,
+      workingDirectory: parent.workingDirectory,
+      timeout: options.timeout ?? parent.timeout,
+      idleTimeout: options.idleTimeout ?? parent.idleTimeout,
+      retry: options.retry ?? parent.retry,
+      attempts: [],
+      maxCostUsd: options.maxCostUsd ?? parent.maxCostUsd,
+      additionalArgs: options.additionalArgs ?? parent.additionalArgs,
+      // The session id can only be captured from stream-json output
+      outputFormat: 'stream-json',
+      backend: parent.backend,
+      priority: options.priority ?? parent.priority,
+      // A parent that got a fresh worktree held no lock; its follow-ups lock that worktree instead
+      concurrencyKey: parent.worktree ? undefined : parent.concurrencyKey,
+      readOnly: parent.readOnly,
+      tags: parent.tags,
+      status: 'pending',
+      createdAt: new Date(),
+      resumeSessionId: parent.sessionId,
+      parentTaskId: parent.id,
+      clientSessionId: options.clientSessionId,
+      // Claude sessions are tied to their directory, so follow-ups keep using the parent's worktree
+      isolation: parent.worktree?.state === 'active' ? 'worktree' : 'none',
+      worktree: parent.worktree?.state === 'active' ? parent.worktree : undefined,
+      captureChanges: parent.captureChanges,
+      checkpointEnabled: parent.checkpointEnabled && parent.worktree?.state !== 'active',
+    });
+  }
+
+  /**
+   * Register a task and start executing it
+   */
+  private async enqueueTask(task: Task): Promise<string> {
+    task.concurrencyKey = task.readOnly ? undefined : task.concurrencyKey ?? await this.defaultConcurrencyKey(task);
+
+    const id = task.id;
     this.tasks.set(id, task);
-    logger.info(`Task ${id} created: "${options.task.substring(0, 50)}..."`);
+    this.saveTask(task);
+    logger.info(`Task ${id} created: "${task.task.substring(0, 50)}..."`);
 
-    // Start execution asynchronously
-    this.executeTask(id);
+    if (task.status === 'blocked') {
+      // The dependencies may already have finished
+      this.settleBlockedTasks();
+    } else {
+      // Start execution asynchronously
+      this.executeTask(id);
+    }
 
     return id;
   }
 
   /**
-   * Execute a task (runs asynchronously)
+   * Start blocked tasks whose dependencies now allow it, and skip (cancel) those whose
+   * run condition can no longer be met - which may in turn settle their own dependents
    */
-  private async executeTask(id: string): Promise<void> {
+  private settleBlockedTasks(): void {
+    let skippedAny = true;
+    while (skippedAny) {
+      skippedAny = false;
+      for (const task of this.tasks.values()) {
+        if (task.status !== 'blocked') {
+          continue;
+        }
+
+        const dependencies = this.getDependencyState(task);
+        if (dependencies.state === 'ready') {
+          task.status = 'pending';
+          this.saveTask(task);
+          logger.info(`Task ${task.id} unblocked`);
+          this.executeTask(task.id);
+        } else if (dependencies.state === 'unsatisfiable') {
+          task.status = 'cancelled';
+          task.error = `Skipped: ${dependencies.reason} (runs if: ${task.runIf ?? 'success'})`;
+          task.errorCode = ErrorCode.DEPENDENCY_NOT_MET;
+          task.completedAt = new Date();
+          this.saveTask(task);
+          logger.info(`Task ${task.id} skipped: ${dependencies.reason}`);
+          skippedAny = true;
+        }
+      }
+    }
+  }
+
+  private getDependencyState(task: Task): DependencyState {
+    const dependencies = (task.dependsOn ?? []).map((id) => [id, this.tasks.get(id)] as [string, Task | undefined]);
+    return evaluateDependencies(task.runIf ?? 'success', dependencies);
+  }
+
+  /**
+   * Called once a task's run is over: fail fast within its workflow, settle its dependents
+   * and make room under the retention limits
+   */
+  private onTaskFinished(task: Task): void {
+    const failed = task.status === 'failed' || task.status === 'interrupted' || (task.status === 'completed' && !task.result?.success);
+    if (failed && task.workflow?.failFast) {
+      for (const other of this.tasks.values()) {
+        if (
+          other.workflow?.id === task.workflow.id &&
+          (other.status === 'pending' || other.status === 'running') &&
+          (other.runIf ?? 'success') === 'success'
+        ) {
+          this.cancelTask(other.id, `Cancelled: workflow step "${task.workflow.step}" failed`);
+        }
+      }
+    }
+    this.settleBlockedTasks();
+    this.cleanup();
+  }
+
+  /**
+   * Queue a task for execution; it starts once the scheduler hands it a slot
+   */
+  private executeTask(id: string): void {
     const task = this.tasks.get(id);
     if (!task) {
       logger.error(`Task ${id} not found`);
       return;
     }
+    this.scheduler.enqueue(id, task.priority, task.concurrencyKey);
+  }
 
-    // Wait for available slot if max concurrent limit reached
-    while (this.getRunningCount() >= this.maxConcurrent) {
-      await this.sleep(100);
-      // Check if task was cancelled while waiting
-      if (task.status === 'cancelled') {
-        return;
-      }
+  /**
+   * Lock key for a task that did not set one: the repository (or plain directory) it edits.
+   * A task that gets a fresh worktree of its own needs no lock.
+   */
+  private async defaultConcurrencyKey(task: Task): Promise<string | undefined> {
+    if (task.worktree) {
+      return task.worktree.path;
     }
+    if (task.isolation === 'worktree') {
+      return undefined;
+    }
+
+    const directory = this.realDirectory(task);
+    return existsSync(directory) ? (await getRepoRoot(directory)) ?? directory : directory;
+  }
 
-    if (task.status === 'cancelled') {
+  /**
+   * Run a task that was given a slot
+   */
+  private async runTask(id: string): Promise<void> {
+    const task = this.tasks.get(id);
+    // Cancelled or deleted while queued; left pending for the next server when shutting down
+    if (!task || task.status !== 'pending' || this.stopping) {
       return;
     }
 
     task.status = 'running';
     task.startedAt = new Date();
+    this.saveTask(task);
     logger.info(`Task ${id} started`);
 
+    const abort = new AbortController();
+    this.runs.set(id, abort);
+
     try {
-      const result = await executeClaudeTask({
-        task: task.task,
-        workingDirectory: task.workingDirectory,
-        timeout: task.timeout * 1000,
-        additionalArgs: task.additionalArgs,
-      });
+      // The cap may have been reached while the task was queued
+      this.assertWithinDailyBudget();
+
+      const workingDirectory = await this.prepareWorkingDirectory(task);
+
+      // A re-queued task keeps the checkpoint from its first start
+      if (task.checkpointEnabled && task.isolation !== 'worktree' && !task.checkpoint) {
+        task.checkpoint = await createCheckpoint(workingDirectory ?? process.cwd(), id);
+      }
+
+      const live = { attempt: 1, stdout: '', stderr: '' };
+      this.liveOutput.set(id, live);
+
+      let result: ExecutionResult;
+      try {
+        result = await this.executor({
+          task: task.task,
+          workingDirectory,
+          timeout: task.timeout * 1000,
+          idleTimeout: task.idleTimeout !== undefined ? task.idleTimeout * 1000 : undefined,
+          additionalArgs: task.additionalArgs,
+          outputFormat: task.outputFormat,
+          resumeSessionId: task.resumeSessionId,
+          backend: task.backend,
+          captureChanges: task.captureChanges,
+          retry: task.retry,
+          maxCostUsd: task.maxCostUsd,
+          onRetry: (attempt) => {
+            task.attempts.push(attempt);
+            this.saveTask(task);
+          },
+          onOutput: (chunk, stream) => {
+            live[stream] += chunk;
+            if (this.tasks.get(id) === task) {
+              this.emit({ type: 'output', taskId: id, stream });
+            }
+          },
+          onProgress: (event) => {
+            if (event.type === 'started') {
+              live.attempt = event.attempt;
+              for (const stream of ['stdout', 'stderr'] as const) {
+                const hadOutput = live[stream] !== '';
+                live[stream] = '';
+                if (hadOutput && this.tasks.get(id) === task) {
+                  this.emit({ type: 'output', taskId: id, stream });
+                }
+              }
+            }
+            if (this.tasks.get(id) === task) {
+              this.emit({ type: 'progress', taskId: id, event });
+            }
+          },
+          onSpawn: (handle) => {
+            task.pid = handle.pid;
+            task.processIdentity = handle.pid !== undefined ? getProcessIdentity(handle.pid) : undefined;
+            this.saveTask(task);
+          },
+          // Also covers a cancellation while the working directory was being prepared
+          signal: abort.signal,
+        });
+      } finally {
+        await this.finalizeWorktree(task);
+      }
 
       task.result = result;
+      task.attempts = result.attempts ?? task.attempts;
+      task.sessionId = result.structured?.sessionId ?? task.sessionId;
+      this.recordUsage(task, result);
+
+      // A late exit must never un-cancel the task
+      if (this.isCancelled(task)) {
+        logger.info(`Task ${id} process exited after cancellation`);
+        return;
+      }
+
       task.completedAt = new Date();
 
       if (result.success) {
         task.status = 'completed';
         logger.info(`Task ${id} completed successfully`);
       } else {
+        // Transient failures were retried by the executor; what is left is permanent (or out of attempts)
         task.status = 'failed';
         task.error = result.error ?? 'Task execution failed';
-        logger.error(`Task ${id} failed: ${task.error}`);
+        task.errorCode = result.errorCode;
+        logger.error(`Task ${id} failed after ${task.attempts.length} attempt(s): ${task.error}`);
       }
     } catch (error) {
+      if (this.isCancelled(task)) {
+        return;
+      }
       task.status = 'failed';
       task.error = error instanceof Error ? error.message : String(error);
+      task.errorCode = isMcpServerError(error) ? error.code : ErrorCode.INTERNAL_ERROR;
       task.completedAt = new Date();
       logger.error(`Task ${id} error: ${task.error}`);
+    } finally {
+      this.runs.delete(id);
+      this.liveOutput.delete(id);
+      this.saveTask(task);
+      // Deleted while running: its worktree was kept until the process had exited
+      if (this.tasks.get(id) !== task) {
+        this.releaseWorktree(task);
+      }
+    }
+  }
+
+  /**
+   * Add a finished run's tokens and cost to the ledger
+   */
+  private recordUsage(task: Task, result: ExecutionResult): void {
+    if (!result.usage) {
+      return;
+    }
+
+    const entry = {
+      ...result.usage,
+      taskId: task.id,
+      workingDirectory: resolve(task.workingDirectory ?? process.cwd()),
+      recordedAt: new Date(),
+    };
+    this.ledger.record(entry);
+    this.store.appendUsage(entry);
+
+    if (task.maxCostUsd !== undefined && result.usage.costUsd > task.maxCostUsd) {
+      logger.warn(`Task ${task.id} cost $${result.usage.costUsd.toFixed(4)}, over its $${task.maxCostUsd} budget`);
+    }
+  }
+
+  /**
+   * Reject new work once the rolling 24-hour spend reaches the daily budget
+   */
+  private assertWithinDailyBudget(): void {
+    const cap = this.budget.dailyBudgetUsd;
+    if (cap === undefined) {
+      return;
+    }
+
+    const spent = this.ledger.spentLast24h();
+    if (spent >= cap) {
+      throw new McpServerError(
+        ErrorCode.BUDGET_EXCEEDED,
+        `Daily budget exhausted: $${spent.toFixed(2)} spent in the last 24 hours (cap $${cap.toFixed(2)})`,
+        { spentUsd: spent, dailyBudgetUsd: cap }
+      );
+    }
+  }
+
+  /**
+   * Spend totals overall, today, over the last 24 hours, per directory, day and model
+   */
+  getSpend(): SpendSummary {
+    return { ...this.ledger.summarize(), dailyBudgetUsd: this.budget.dailyBudgetUsd };
+  }
+
+  /**
+   * Resolve the directory a task runs in, creating its worktree if it is isolated
+   */
+  private async prepareWorkingDirectory(task: Task): Promise<string | undefined> {
+    if (task.isolation !== 'worktree') {
+      return task.workingDirectory;
+    }
+
+    if (!task.worktree) {
+      task.worktree = await createTaskWorktree(resolve(task.workingDirectory ?? process.cwd()), task.id);
+    }
+    return task.worktree.runDirectory;
+  }
+
+  /**
+   * Record the commits and diff an isolated task produced
+   */
+  private async finalizeWorktree(task: Task): Promise<void> {
+    if (!task.worktree || task.worktree.state !== 'active') {
+      return;
+    }
+
+    try {
+      await finalizeTaskWorktree(task.worktree, task.id);
+    } catch (error) {
+      logger.error(`Failed to record worktree changes for task ${task.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Merge or cherry-pick an isolated task's branch back into the original checkout
+   */
+  async applyTaskChanges(id: string, strategy: ApplyStrategy): Promise<TaskInfo> {
+    const task = this.getWorktreeTask(id);
+    try {
+      await applyTaskWorktree(task.worktree!, strategy);
+    } finally {
+      this.saveWorktreeTasks(task.worktree!);
     }
+    return this.toTaskInfo(task);
+  }
+
+  /**
+   * Remove an isolated task's worktree and branch
+   */
+  async discardTaskChanges(id: string): Promise<TaskInfo> {
+    const task = this.getWorktreeTask(id);
+    await discardTaskWorktree(task.worktree!);
+    this.saveWorktreeTasks(task.worktree!);
+    return this.toTaskInfo(task);
+  }
+
+  /**
+   * Restore the files a task changed to their state at its checkpoint.
+   * Refuses if a task that started later modified any of the same files,
+   * unless forced, and while another task is running in the same directory.
+   */
+  async rollbackTask(id: string, options: RollbackOptions = {}): Promise<{ taskInfo: TaskInfo; restored: FileChange[] }> {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${id} does not exist`, { taskId: id });
+    }
+    if (task.status === 'pending' || task.status === 'running') {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${id} is still ${task.status}; cancel it or wait for it to finish before rolling it back`,
+        { taskId: id, status: task.status }
+      );
+    }
+    const checkpoint = task.checkpoint;
+    if (!checkpoint) {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${id} has no checkpoint (create it with checkpoint: true)`,
+        { taskId: id }
+      );
+    }
+    if (checkpoint.state !== 'active') {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${id} was already rolled back`,
+        { taskId: id, state: checkpoint.state }
+      );
+    }
+
+    for (const other of this.tasks.values()) {
+      if (other !== task && other.status === 'running' && !other.worktree && this.sharesDirectory(other, checkpoint.directory)) {
+        throw new McpServerError(
+          ErrorCode.INVALID_TASK_STATE,
+          `Task ${other.id} is running in the same directory; wait for it to finish before rolling back`,
+          { taskId: other.id, status: other.status }
+        );
+      }
+    }
+
+    // Only undo what this task did, when known; otherwise everything since the checkpoint
+    const differing = await getCheckpointChanges(checkpoint);
+    const ownChanges = task.result?.changes && new Set(task.result.changes.files.map((file) => file.path));
+    const restore = ownChanges ? differing.filter((file) => ownChanges.has(file.path)) : differing;
+
+    if (!options.force) {
+      const conflicts = this.findLaterModifications(task, checkpoint, restore);
+      if (conflicts.length > 0) {
+        throw new McpServerError(
+          ErrorCode.ROLLBACK_CONFLICT,
+          `Tasks that started after ${id} modified the same files; rolling back would discard their changes. ` +
+          'Pass force to roll back anyway.',
+          { taskId: id, conflicts }
+        );
+      }
+    }
+
+    await restoreCheckpoint(checkpoint, restore);
+    this.saveTask(task);
+    logger.info(`Task ${id} rolled back (${restore.length} file(s) restored)`);
+    return { taskInfo: this.toTaskInfo(task), restored: restore };
+  }
+
+  /**
+   * Find tasks started after a task's checkpoint that changed any of the given files
+   */
+  private findLaterModifications(
+    task: Task,
+    checkpoint: TaskCheckpoint,
+    files: FileChange[]
+  ): Array<{ taskId: string; files: string[] }> {
+    const targets = new Set(files.map((file) => join(checkpoint.directory, file.path)));
+    const startedAt = task.startedAt?.getTime() ?? 0;
+    const conflicts: Array<{ taskId: string; files: string[] }> = [];
+
+    for (const other of this.tasks.values()) {
+      // Isolated tasks only touch this checkout once their branch is applied
+      const touchesCheckout = !other.worktree || other.worktree.state === 'applied';
+      if (other === task || !touchesCheckout || !other.startedAt || other.startedAt.getTime() < startedAt) {
+        continue;
+      }
+      const changes = other.result?.changes;
+      if (!changes) {
+        continue;
+      }
+
+      const directory = this.realDirectory(other);
+      const overlapping = changes.files
+        .map((file) => join(directory, file.path))
+        .filter((path) => targets.has(path))
+        .map((path) => relative(checkpoint.directory, path));
+      if (overlapping.length > 0) {
+        conflicts.push({ taskId: other.id, files: overlapping });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Whether a task's working directory contains, or is inside, the given directory
+   */
+  private sharesDirectory(task: Task, directory: string): boolean {
+    const own = this.realDirectory(task);
+    const inside = (child: string, parent: string) => {
+      const rel = relative(parent, child);
+      return !rel.startsWith('..') && !isAbsolute(rel);
+    };
+    return inside(own, directory) || inside(directory, own);
+  }
+
+  /**
+   * A task's working directory with symlinks resolved (matches checkpoint paths)
+   */
+  private realDirectory(task: Task): string {
+    const directory = resolve(task.workingDirectory ?? process.cwd());
+    return existsSync(directory) ? realpathSync(directory) : directory;
+  }
+
+  /**
+   * Get a finished task with an active worktree, or throw
+   */
+  private getWorktreeTask(id: string): Task {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${id} does not exist`, { taskId: id });
+    }
+    if (!task.worktree) {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Task ${id} did not run with worktree isolation`,
+        { taskId: id }
+      );
+    }
+    if (task.worktree.state !== 'active') {
+      throw new McpServerError(
+        ErrorCode.INVALID_TASK_STATE,
+        `Changes of task ${id} were already ${task.worktree.state}`,
+        { taskId: id, state: task.worktree.state }
+      );
+    }
+
+    // Any task on the same worktree (a continue-task chain) must be finished
+    for (const other of this.tasks.values()) {
+      if (other.worktree === task.worktree && (other.status === 'pending' || other.status === 'running')) {
+        throw new McpServerError(
+          ErrorCode.INVALID_TASK_STATE,
+          `Task ${other.id} is still ${other.status} in this worktree`,
+          { taskId: other.id, status: other.status }
+        );
+      }
+    }
+
+    return task;
   }
 
   /**
@@ -142,18 +1259,37 @@ export class TaskManager {
       return null;
     }
 
-    return {
-      id: task.id,
-      task: task.task,
-      workingDirectory: task.workingDirectory,
-      status: task.status,
-      createdAt: task.createdAt.toISOString(),
-      startedAt: task.startedAt?.toISOString(),
-      completedAt: task.completedAt?.toISOString(),
-      error: task.error,
-      success: task.result?.success,
-      exitCode: task.result?.exitCode,
-    };
+    return this.toTaskInfo(task);
+  }
+
+  /**
+   * Get the conversation chain of a task: its ancestors (oldest first),
+   * the task itself, and the follow-ups that continue it.
+   */
+  getTaskChain(id: string): { ancestors: TaskInfo[]; task: TaskInfo; followUps: TaskInfo[] } | null {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return null;
+    }
+
+    const ancestors: TaskInfo[] = [];
+    const seen = new Set<string>([task.id]);
+    let parentId = task.parentTaskId;
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = this.tasks.get(parentId);
+      if (!parent) {
+        break;
+      }
+      ancestors.unshift(this.toTaskInfo(parent));
+      parentId = parent.parentTaskId;
+    }
+
+    const followUps = Array.from(this.tasks.values())
+      .filter((t) => t.parentTaskId === id)
+      .map((t) => this.toTaskInfo(t));
+
+    return { ancestors, task: this.toTaskInfo(task), followUps };
   }
 
   /**
@@ -163,6 +1299,10 @@ export class TaskManager {
     taskInfo: TaskInfo | null;
     stdout?: string;
     stderr?: string;
+    structured?: StructuredResult;
+    commits?: WorktreeCommit[];
+    diff?: string;
+    changes?: ChangeSummary;
   } | null {
     const task = this.tasks.get(id);
     if (!task) {
@@ -173,40 +1313,134 @@ export class TaskManager {
       taskInfo: this.getTask(id)!,
       stdout: task.result?.stdout,
       stderr: task.result?.stderr,
+      structured: task.result?.structured,
+      commits: task.worktree?.commits,
+      diff: task.worktree?.diff,
+      changes: task.result?.changes,
     };
   }
 
   /**
-   * List all tasks
+   * Get a task's stdout or stderr: live while it runs, from the result once it has finished
    */
-  listTasks(): TaskInfo[] {
-    return Array.from(this.tasks.values()).map((task) => ({
-      id: task.id,
-      task: task.task,
-      workingDirectory: task.workingDirectory,
-      status: task.status,
-      createdAt: task.createdAt.toISOString(),
-      startedAt: task.startedAt?.toISOString(),
-      completedAt: task.completedAt?.toISOString(),
-      error: task.error,
-      success: task.result?.success,
-      exitCode: task.result?.exitCode,
-    }));
+  getTaskOutput(id: string, stream: OutputStream): TaskOutput | null {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return null;
+    }
+
+    const live = this.liveOutput.get(id);
+    return {
+      text: live?.[stream] ?? task.result?.[stream] ?? '',
+      complete: !live && FINISHED_STATUSES.includes(task.status),
+      attempt: live?.attempt ?? (task.attempts.length > 0 ? task.attempts.length : undefined),
+    };
+  }
+
+  /**
+   * Read a task's output from a cursor: live while it runs, from the result once it has finished
+   */
+  tailTaskOutput(id: string, options: TailTaskOutputOptions = {}): TaskOutputTail {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${id} does not exist`, { taskId: id });
+    }
+    if (options.assistantOnly && task.outputFormat !== 'stream-json') {
+      throw new McpServerError(
+        ErrorCode.INVALID_INPUT,
+        `Task ${id} uses ${task.outputFormat} output; assistant text can only be separated from stream-json output`,
+        { taskId: id, outputFormat: task.outputFormat }
+      );
+    }
+
+    const { text, complete, attempt } = this.getTaskOutput(id, 'stdout')!;
+    const tail = tailText(options.assistantOnly ? extractAssistantText(text) : text, options, complete);
+
+    return { ...tail, status: task.status, attempt, complete };
+  }
+
+  /**
+   * Get the unified patch of the files a task changed
+   */
+  getTaskDiff(id: string): { taskInfo: TaskInfo; changes?: ChangeSummary } | null {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return null;
+    }
+
+    return { taskInfo: this.toTaskInfo(task), changes: task.result?.changes };
+  }
+
+  /**
+   * List the tasks matching a query, one page at a time (newest first by default)
+   */
+  listTasks(query: TaskQuery = {}): TaskPage<TaskInfo> {
+    const page = queryTasks(Array.from(this.tasks.values()), query);
+    return { ...page, tasks: page.tasks.map((task) => this.toTaskInfo(task)) };
+  }
+
+  /**
+   * Pending tasks in start order, with estimated start times
+   */
+  getQueue(): Array<QueuePosition & { task: TaskInfo }> {
+    return this.scheduler.getQueue().flatMap((entry) => {
+      const task = this.tasks.get(entry.id);
+      return task ? [{ ...entry, task: this.toTaskInfo(task) }] : [];
+    });
+  }
+
+  /**
+   * Prepare for the server to exit: stop starting tasks, mark running ones interrupted and kill
+   * their process trees. Resolves once their runs have ended, or after `graceMs` at the latest.
+   * Pending tasks stay pending and are recovered by the next server.
+   */
+  async shutdown(graceMs: number = DEFAULT_KILL_GRACE_MS): Promise<void> {
+    this.stopping = true;
+    this.schedules.stop();
+    clearInterval(this.retentionTimer);
+
+    for (const [id, abort] of this.runs) {
+      const task = this.tasks.get(id);
+      if (task?.status === 'running') {
+        task.status = 'interrupted';
+        task.error = 'Interrupted by a server shutdown';
+        task.errorCode = ErrorCode.TASK_INTERRUPTED;
+        task.completedAt = new Date();
+        this.saveTask(task);
+        logger.info(`Task ${id} interrupted by shutdown`);
+      }
+      abort.abort('Server shutting down');
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(this.activeRuns),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, graceMs);
+      }),
+    ]);
+    clearTimeout(timer);
   }
 
   /**
-   * Cancel a task
+   * Cancel a task, killing its process tree if it is running
    */
-  cancelTask(id: string): boolean {
+  cancelTask(id: string, reason: string = 'Cancelled by user'): boolean {
     const task = this.tasks.get(id);
     if (!task) {
       return false;
     }
 
-    if (task.status === 'pending' || task.status === 'running') {
+    if (task.status === 'blocked' || task.status === 'pending' || task.status === 'running') {
+      this.scheduler.remove(id);
       task.status = 'cancelled';
+      task.error = reason;
       task.completedAt = new Date();
+      this.runs.get(id)?.abort(reason);
+      this.saveTask(task);
       logger.info(`Task ${id} cancelled`);
+      // Dependents waiting for its success will not run
+      this.settleBlockedTasks();
       return true;
     }
 
@@ -214,49 +1448,320 @@ export class TaskManager {
   }
 
   /**
-   * Delete a task from the task list
+   * Delete a task from the task list. A running task is stopped first, and a worktree
+   * no other task uses is removed (once the run has ended).
    */
   deleteTask(id: string): boolean {
+    const task = this.tasks.get(id);
+    if (task) {
+      this.scheduler.remove(id);
+      this.releaseCheckpoint(task);
+      this.store.deleteTask(id);
+    }
     logger.info(`Task ${id} deleted`);
-    return this.tasks.delete(id);
+    const deleted = this.tasks.delete(id);
+    if (task && deleted) {
+      // Without its record nothing could cancel the process tree any more
+      this.runs.get(id)?.abort('Task deleted');
+      this.releaseWorktree(task);
+      this.emitDeleted(id);
+    }
+    // A deleted dependency counts as cancelled
+    this.settleBlockedTasks();
+    return deleted;
   }
 
   /**
-   * Clean up old completed tasks
+   * Remove finished tasks beyond the retention limits, oldest first. Limits given in the
+   * options replace the configured ones; with dryRun nothing is removed.
    */
-  cleanup(olderThanMs: number = 3600000): number {
-    const now = Date.now();
-    let cleaned = 0;
+  cleanup(options: CleanupOptions = {}): CleanupReport {
+    const { dryRun = false, ...overrides } = options;
+    const policy: RetentionPolicy = { ...this.retention };
+    for (const [key, value] of Object.entries(overrides) as Array<[keyof RetentionPolicy, number | undefined]>) {
+      if (value !== undefined) {
+        policy[key] = value;
+      }
+    }
+
+    const plan = planRetention(Array.from(this.tasks.values()), policy);
 
-    for (const [id, task] of this.tasks.entries()) {
-      if (
-        (task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled') &&
-        task.completedAt &&
-        now - task.completedAt.getTime() > olderThanMs
-      ) {
-        this.tasks.delete(id);
-        cleaned++;
+    if (!dryRun) {
+      for (const { task } of plan.evictions) {
+        this.releaseCheckpoint(task);
+        this.tasks.delete(task.id);
+        this.store.deleteTask(task.id);
+        this.emitDeleted(task.id);
+      }
+      if (plan.evictions.length > 0) {
+        logger.info(`Cleaned up ${plan.evictions.length} finished task(s)`);
       }
     }
 
-    if (cleaned > 0) {
-      logger.info(`Cleaned up ${cleaned} old tasks`);
+    return {
+      dryRun,
+      policy,
+      removed: plan.evictions.map(({ task, reason, outputBytes }) => ({
+        id: task.id,
+        task: task.task,
+        status: task.status,
+        completedAt: task.completedAt?.toISOString(),
+        reason,
+        outputBytes,
+      })),
+      before: plan.before,
+      after: plan.after,
+    };
+  }
+
+  /**
+   * Pin a task so cleanup keeps it, or unpin it
+   */
+  pinTask(id: string, pinned: boolean): TaskInfo {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${id} does not exist`, { taskId: id });
     }
+    task.pinned = pinned || undefined;
+    this.saveTask(task);
+    return this.toTaskInfo(task);
+  }
 
-    return cleaned;
+  /**
+   * Persist a task's current state
+   */
+  private saveTask(task: Task): void {
+    // Deleted while running: don't bring it back
+    if (this.tasks.get(task.id) === task) {
+      this.store.saveTask(task);
+      this.emitStatusChange(task);
+    }
   }
 
   /**
-   * Get count of currently running tasks
+   * Subscribe to task events; returns a function that unsubscribes
    */
-  private getRunningCount(): number {
-    let count = 0;
+  onTaskEvent(listener: TaskEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until any or all of the given tasks have finished (or were deleted), or the timeout passes.
+   * Driven by task events, so it returns as soon as the condition is met.
+   */
+  waitForTasks(ids: string[], options: WaitForTasksOptions = {}): Promise<WaitResult> {
+    const taskIds = [...new Set(ids)];
+    for (const id of taskIds) {
+      if (!this.tasks.has(id)) {
+        throw new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${id} does not exist`, { taskId: id });
+      }
+    }
+
+    const mode = options.mode ?? 'all';
+    const startedAt = Date.now();
+
+    return new Promise((resolveWait) => {
+      let timer: NodeJS.Timeout | undefined;
+      let unsubscribe = () => {};
+      const onAbort = () => check(true);
+
+      const check = (timedOut: boolean): boolean => {
+        const finished = taskIds.filter((id) => {
+          const task = this.tasks.get(id);
+          return !task || FINISHED_STATUSES.includes(task.status);
+        });
+        const satisfied = mode === 'any' ? finished.length > 0 : finished.length === taskIds.length;
+        if (!satisfied && !timedOut) {
+          return false;
+        }
+
+        unsubscribe();
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        resolveWait({
+          satisfied,
+          waitedMs: Date.now() - startedAt,
+          tasks: taskIds.flatMap((id) => {
+            const task = this.tasks.get(id);
+            return task ? [this.toTaskInfo(task)] : [];
+          }),
+          deleted: taskIds.filter((id) => !this.tasks.has(id)),
+        });
+        return true;
+      };
+
+      if (check(options.signal?.aborted ?? false)) {
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      unsubscribe = this.onTaskEvent((event) => {
+        if (taskIds.includes(event.taskId)) {
+          check(false);
+        }
+      });
+      timer = setTimeout(() => check(true), options.timeoutMs ?? 30000);
+    });
+  }
+
+  /**
+   * Tell listeners about a status the task has not been reported in yet
+   */
+  private emitStatusChange(task: Task): void {
+    const previousStatus = this.reportedStatus.get(task.id);
+    if (previousStatus === task.status) {
+      return;
+    }
+    this.reportedStatus.set(task.id, task.status);
+    this.emit({ type: 'status', taskId: task.id, status: task.status, previousStatus });
+  }
+
+  private emitDeleted(id: string): void {
+    this.reportedStatus.delete(id);
+    this.emit({ type: 'deleted', taskId: id });
+  }
+
+  private emit(event: TaskEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error(`Task event listener failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Persist every task of a continue-task chain sharing a worktree
+   */
+  private saveWorktreeTasks(worktree: TaskWorktree): void {
     for (const task of this.tasks.values()) {
-      if (task.status === 'running') {
-        count++;
+      if (task.worktree === worktree) {
+        this.saveTask(task);
       }
     }
-    return count;
+  }
+
+  /**
+   * Remove a forgotten task's checkpoint in the background
+   */
+  private releaseCheckpoint(task: Task): void {
+    if (task.checkpoint) {
+      removeCheckpoint(task.checkpoint).catch((error) => {
+        logger.error(`Failed to remove checkpoint of task ${task.id}: ${error}`);
+      });
+    }
+  }
+
+  /**
+   * Remove a deleted task's worktree and branch, unless it is still running
+   * or another task of its continue-task chain uses the worktree
+   */
+  private releaseWorktree(task: Task): void {
+    const worktree = task.worktree;
+    if (!worktree || worktree.state !== 'active' || this.runs.has(task.id)) {
+      return;
+    }
+    if (Array.from(this.tasks.values()).some((other) => other.worktree === worktree)) {
+      return;
+    }
+
+    discardTaskWorktree(worktree).catch((error) => {
+      logger.error(`Failed to remove worktree of task ${task.id}: ${error}`);
+    });
+  }
+
+  /**
+   * Convert an internal task to its public info
+   */
+  private toTaskInfo(task: Task): TaskInfo {
+    const blocked = task.status === 'blocked' ? this.getDependencyState(task) : undefined;
+
+    return {
+      id: task.id,
+      task: task.task,
+      workingDirectory: task.workingDirectory,
+      backend: task.backend,
+      priority: task.priority,
+      status: task.status,
+      queuePosition: task.status === 'pending' ? this.scheduler.getPosition(task.id) : undefined,
+      concurrencyKey: task.concurrencyKey,
+      readOnly: task.readOnly,
+      waitingForLockHeldBy: task.status === 'pending' && task.concurrencyKey !== undefined
+        ? this.scheduler.getLockHolder(task.concurrencyKey)
+        : undefined,
+      dependsOn: task.dependsOn,
+      runIf: task.runIf,
+      blockedOn: blocked?.state === 'waiting' ? blocked.unfinished : undefined,
+      workflow: task.workflow ? { id: task.workflow.id, name: task.workflow.name, step: task.workflow.step } : undefined,
+      scheduleId: task.scheduleId,
+      pinned: task.pinned ?? false,
+      tags: task.tags,
+      outputBytes: getTaskOutputBytes(task),
+      createdAt: task.createdAt.toISOString(),
+      startedAt: task.startedAt?.toISOString(),
+      completedAt: task.completedAt?.toISOString(),
+      error: task.error,
+      errorCode: task.errorCode,
+      success: task.result?.success,
+      exitCode: task.result?.exitCode,
+      sessionId: task.sessionId,
+      parentTaskId: task.parentTaskId,
+      clientSessionId: task.clientSessionId,
+      isolation: task.isolation,
+      attempt: this.getAttemptInfo(task),
+      attempts: task.attempts.length > 1
+        ? task.attempts.map((attempt) => ({
+          attempt: attempt.attempt,
+          startedAt: attempt.startedAt.toISOString(),
+          completedAt: attempt.completedAt.toISOString(),
+          success: attempt.success,
+          failureClass: attempt.failureClass,
+          error: attempt.error,
+          retryDelayMs: attempt.retryDelayMs,
+        }))
+        : undefined,
+      usage: task.result?.usage,
+      maxCostUsd: task.maxCostUsd,
+      filesChanged: task.result?.changes?.files.length,
+      worktree: task.worktree && {
+        branch: task.worktree.branch,
+        path: task.worktree.path,
+        baseCommit: task.worktree.baseCommit,
+        state: task.worktree.state,
+        commitCount: task.worktree.commits?.length,
+      },
+      checkpoint: task.checkpoint && {
+        kind: task.checkpoint.kind,
+        location: getCheckpointLocation(task.checkpoint),
+        state: task.checkpoint.state,
+      },
+    };
+  }
+
+  /**
+   * Attempt number and previous failure of a task with a retry policy
+   */
+  private getAttemptInfo(task: Task): TaskInfo['attempt'] {
+    if (!task.retry || task.status === 'pending') {
+      return undefined;
+    }
+
+    const maxAttempts = resolveRetryPolicy(task.retry).maxAttempts;
+    const finished = task.status !== 'running';
+    // While running, the finished attempts are all earlier than the current one
+    const number = finished ? Math.max(task.attempts.length, 1) : task.attempts.length + 1;
+    const previous = task.attempts[number - 2];
+    return { number, maxAttempts, previousFailure: previous?.failureClass };
+  }
+
+  /**
+   * Check for cancellation or a shutdown (status may change while an execution is awaited)
+   */
+  private isCancelled(task: Task): boolean {
+    return task.status === 'cancelled' || task.status === 'interrupted';
   }
 
   /**
@@ -264,19 +1769,23 @@ export class TaskManager {
    */
   getStats(): {
     total: number;
+    blocked: number;
     pending: number;
     running: number;
     completed: number;
     failed: number;
     cancelled: number;
+    interrupted: number;
   } {
     const stats = {
       total: this.tasks.size,
+      blocked: 0,
       pending: 0,
       running: 0,
       completed: 0,
       failed: 0,
       cancelled: 0,
+      interrupted: 0,
     };
 
     for (const task of this.tasks.values()) {
@@ -285,14 +1794,75 @@ export class TaskManager {
 
     return stats;
   }
+}
 
-  /**
-   * Sleep helper
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Tasks of a continue-task chain share one worktree object (its state is updated in place);
+ * restore that sharing for tasks loaded from the store, keeping the most advanced state
+ */
+function relinkWorktrees(tasks: Task[]): void {
+  const byPath = new Map<string, TaskWorktree>();
+  for (const task of tasks) {
+    if (!task.worktree) {
+      continue;
+    }
+    const known = byPath.get(task.worktree.path);
+    if (!known || (known.state === 'active' && task.worktree.state !== 'active') || (!known.commits && task.worktree.commits)) {
+      byPath.set(task.worktree.path, task.worktree);
+    }
+  }
+  for (const task of tasks) {
+    if (task.worktree) {
+      task.worktree = byPath.get(task.worktree.path);
+    }
+  }
+}
+
+/**
+ * Trim tags and drop empty and duplicate ones
+ */
+function normalizeTags(tags: string[] | undefined): string[] | undefined {
+  const normalized = [...new Set((tags ?? []).map((tag) => tag.trim()).filter(Boolean))];
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Parse a retention limit from the environment: unset uses the default, 0 disables the limit
+ */
+function parseLimit(value: string | undefined, defaultValue: number): number {
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
   }
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : defaultValue;
+}
+
+/**
+ * Parse a catch-up policy from the environment
+ */
+function parseCatchUp(value: string | undefined): CatchUpPolicy | undefined {
+  const policy = value?.toLowerCase();
+  return policy === 'skip' || policy === 'once' || policy === 'all' ? policy : undefined;
+}
+
+/**
+ * Parse a USD amount from the environment (undefined if unset or invalid)
+ */
+function parseBudget(value: string | undefined): number | undefined {
+  const amount = Number(value);
+  return value && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
 }
 
 // Global task manager instance
-export const taskManager = new TaskManager(3);
+export const taskManager = new TaskManager(3, {
+  dailyBudgetUsd: parseBudget(process.env.DAILY_BUDGET_USD),
+  maxTaskCostUsd: parseBudget(process.env.MAX_TASK_COST_USD),
+  store: createTaskStore(),
+  recovery: process.env.RECOVERY_POLICY?.toLowerCase() === 'requeue' ? 'requeue' : 'interrupt',
+  catchUp: parseCatchUp(process.env.SCHEDULE_CATCH_UP),
+  retention: {
+    maxAgeMs: parseLimit(process.env.RETENTION_MAX_AGE_HOURS, 7 * 24) * 60 * 60 * 1000 || undefined,
+    maxTasks: parseLimit(process.env.RETENTION_MAX_TASKS, 500) || undefined,
+    maxOutputBytes: parseLimit(process.env.RETENTION_MAX_OUTPUT_MB, 100) * 1024 * 1024 || undefined,
+  },
+});
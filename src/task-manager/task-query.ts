@@ -0,0 +1,228 @@
+/**
+ * Task Queries
+ *
+ * Filtering, sorting and pagination of tasks, independent of how they are
+ * presented, so list-tasks and any other listing share one query model.
+ *
+ * Pagination is cursor-based: a page's `nextCursor` encodes the sort key and id
+ * of its last task, and the next page starts after that position. Unlike an
+ * offset, a cursor does not shift when tasks are created or removed between
+ * pages.
+ */
+
+import { isAbsolute, relative, resolve } from 'node:path';
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import type { Task, TaskStatus } from './task-manager.js';
+
+export type TaskSortField = 'created' | 'completed' | 'duration' | 'status';
+
+export const TASK_SORT_FIELDS: readonly TaskSortField[] = ['created', 'completed', 'duration', 'status'];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TaskQuery {
+  /** Tasks in any of these statuses */
+  status?: TaskStatus[];
+  /** Tasks run in this directory or below it */
+  workingDirectory?: string;
+  /** Tasks carrying every one of these tags */
+  tags?: string[];
+  /** Finished tasks that succeeded (true) or did not (false) */
+  success?: boolean;
+  /** Words that must all appear in the prompt, output or error (case-insensitive) */
+  search?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  completedAfter?: Date;
+  completedBefore?: Date;
+  /** Sort field (default: 'created') */
+  sortBy?: TaskSortField;
+  /** Sort order (default: 'desc'); tasks without a value for the field come last either way */
+  order?: SortOrder;
+  /** Start after this position (a `nextCursor` of a previous page with the same sorting) */
+  cursor?: string;
+  /** Number of tasks to skip (ignored with a cursor) */
+  offset?: number;
+  /** Maximum number of tasks to return (default: all) */
+  limit?: number;
+}
+
+export interface TaskPage<T> {
+  tasks: T[];
+  /** Tasks matching the filters, across all pages */
+  total: number;
+  /** Cursor of the next page, if there is one */
+  nextCursor?: string;
+}
+
+/** Lifecycle order used when sorting by status */
+const STATUS_RANK: Record<TaskStatus, number> = {
+  blocked: 0,
+  pending: 1,
+  running: 2,
+  completed: 3,
+  failed: 4,
+  cancelled: 5,
+  interrupted: 6,
+};
+
+interface Position {
+  key: number | null;
+  id: string;
+}
+
+interface Cursor extends Position {
+  sortBy: TaskSortField;
+  order: SortOrder;
+}
+
+/**
+ * Filter, sort and page tasks
+ */
+export function queryTasks(tasks: Task[], query: TaskQuery = {}): TaskPage<Task> {
+  const sortBy = query.sortBy ?? 'created';
+  const order = query.order ?? 'desc';
+  const compare = (a: Position, b: Position) => comparePositions(a, b, order);
+
+  const matching = tasks
+    .filter((task) => matchesQuery(task, query))
+    .map((task) => ({ task, position: { key: sortKey(task, sortBy), id: task.id } }))
+    .sort((a, b) => compare(a.position, b.position));
+
+  let start = query.offset ?? 0;
+  if (query.cursor !== undefined) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor.sortBy !== sortBy || cursor.order !== order) {
+      throw new McpServerError(
+        ErrorCode.INVALID_INPUT,
+        `The cursor belongs to a listing sorted by ${cursor.sortBy} (${cursor.order}); use the same sorting or start over without a cursor`,
+        { sortBy, order }
+      );
+    }
+    const index = matching.findIndex((entry) => compare(entry.position, cursor) > 0);
+    start = index === -1 ? matching.length : index;
+  }
+
+  const end = query.limit !== undefined ? start + query.limit : matching.length;
+  const page = matching.slice(start, end);
+  const last = page[page.length - 1];
+
+  return {
+    tasks: page.map((entry) => entry.task),
+    total: matching.length,
+    nextCursor: last && end < matching.length ? encodeCursor({ ...last.position, sortBy, order }) : undefined,
+  };
+}
+
+/**
+ * Check a task against the filters of a query
+ */
+export function matchesQuery(task: Task, query: TaskQuery): boolean {
+  if (query.status?.length && !query.status.includes(task.status)) {
+    return false;
+  }
+  if (query.workingDirectory !== undefined && !isWithin(task.workingDirectory, query.workingDirectory)) {
+    return false;
+  }
+  if (query.tags?.length && !query.tags.every((tag) => task.tags?.includes(tag))) {
+    return false;
+  }
+  if (query.success !== undefined && (task.result === undefined || task.result.success !== query.success)) {
+    return false;
+  }
+  if (!inRange(task.createdAt, query.createdAfter, query.createdBefore)) {
+    return false;
+  }
+  if ((query.completedAfter || query.completedBefore) && !inRange(task.completedAt, query.completedAfter, query.completedBefore)) {
+    return false;
+  }
+  if (query.search !== undefined && !matchesSearch(task, query.search)) {
+    return false;
+  }
+  return true;
+}
+
+function isWithin(directory: string | undefined, root: string): boolean {
+  if (directory === undefined) {
+    return false;
+  }
+  const inner = relative(resolve(root), resolve(directory));
+  return inner === '' || (!inner.startsWith('..') && !isAbsolute(inner));
+}
+
+function inRange(date: Date | undefined, after?: Date, before?: Date): boolean {
+  if (!date) {
+    return !after && !before;
+  }
+  return (!after || date.getTime() >= after.getTime()) && (!before || date.getTime() < before.getTime());
+}
+
+function matchesSearch(task: Task, search: string): boolean {
+  const text = [
+    task.task,
+    task.error,
+    task.result?.structured?.finalMessage,
+    task.result?.stdout,
+    task.result?.stderr,
+  ]
+    .filter((part) => part !== undefined)
+    .join('\n')
+    .toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+}
+
+/**
+ * Value a task is sorted by (null when it has none, e.g. the duration of an unfinished task)
+ */
+function sortKey(task: Task, sortBy: TaskSortField): number | null {
+  switch (sortBy) {
+    case 'created':
+      return task.createdAt.getTime();
+    case 'completed':
+      return task.completedAt?.getTime() ?? null;
+    case 'duration':
+      return task.completedAt ? task.completedAt.getTime() - (task.startedAt ?? task.createdAt).getTime() : null;
+    case 'status':
+      return STATUS_RANK[task.status];
+  }
+}
+
+/**
+ * Order by key, then by id to break ties, so every task has a unique position
+ */
+function comparePositions(a: Position, b: Position, order: SortOrder): number {
+  if (a.key !== b.key) {
+    if (a.key === null) {
+      return 1;
+    }
+    if (b.key === null) {
+      return -1;
+    }
+    return order === 'asc' ? a.key - b.key : b.key - a.key;
+  }
+  if (a.id === b.id) {
+    return 0;
+  }
+  return (a.id < b.id ? -1 : 1) * (order === 'asc' ? 1 : -1);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sortBy, cursor.order, cursor.key, cursor.id])).toString('base64url');
+}
+
+function decodeCursor(text: string): Cursor {
+  try {
+    const [sortBy, order, key, id] = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+    if (
+      TASK_SORT_FIELDS.includes(sortBy) &&
+      (order === 'asc' || order === 'desc') &&
+      (key === null || typeof key === 'number') &&
+      typeof id === 'string'
+    ) {
+      return { sortBy, order, key, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new McpServerError(ErrorCode.INVALID_INPUT, 'Invalid cursor; pass the nextCursor of a previous page', { cursor: text });
+}
@@ -0,0 +1,185 @@
+/**
+ * Task Resources for MCP Server
+ *
+ * Publishes tasks as MCP resources, alongside the task management tools:
+ * - `task://{id}`: the task's info as JSON
+ * - `task://{id}/stdout` and `task://{id}/stderr`: its output, live while it runs
+ * - `tasks://list`: every task's info as JSON
+ *
+ * Clients can subscribe to any of them and receive
+ * `notifications/resources/updated` when a task's status or output changes.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode as McpErrorCode,
+  McpError,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { OutputStream, taskManager, TaskEvent } from './task-manager.js';
+import { logger } from '../utils/logger.js';
+
+const TASK_LIST_URI = 'tasks://list';
+
+/** Changes within this window are coalesced into one update notification per resource */
+const UPDATE_DELAY_MS = 500;
+
+/** Most task IDs offered when completing `{id}` */
+const MAX_COMPLETIONS = 100;
+
+const taskUri = (id: string) => `task://${id}`;
+const outputUri = (id: string, stream: OutputStream) => `task://${id}/${stream}`;
+
+/**
+ * Register the task resources and their subscriptions with the MCP server
+ */
+export function registerTaskResources(server: McpServer): void {
+  const completeTaskId = (value: string) =>
+    taskManager
+      .listTasks({ sortBy: 'created', order: 'desc' })
+      .tasks.map((task) => task.id)
+      .filter((id) => id.startsWith(value))
+      .slice(0, MAX_COMPLETIONS);
+
+  server.registerResource(
+    'task',
+    new ResourceTemplate('task://{id}', {
+      list: async () => ({
+        resources: taskManager.listTasks({ sortBy: 'created', order: 'desc' }).tasks.map((task) => ({
+          uri: taskUri(task.id),
+          name: `Task ${task.id}`,
+          description: `[${task.status}] ${truncate(task.task, 100)}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: { id: completeTaskId },
+    }),
+    {
+      title: 'Task',
+      description: 'Status and details of a background task, as JSON (the same data as get-task-status)',
+      mimeType: 'application/json',
+    },
+    async (uri, { id }): Promise<ReadResourceResult> => {
+      const taskInfo = taskManager.getTask(String(id));
+      if (!taskInfo) {
+        throw taskNotFound(uri, String(id));
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(taskInfo, null, 2) }] };
+    }
+  );
+
+  for (const stream of ['stdout', 'stderr'] as const) {
+    server.registerResource(
+      `task-${stream}`,
+      new ResourceTemplate(`task://{id}/${stream}`, { list: undefined, complete: { id: completeTaskId } }),
+      {
+        title: `Task ${stream}`,
+        description: `The ${stream} of a background task: the output so far while it runs, the full output once it has finished`,
+        mimeType: 'text/plain',
+      },
+      async (uri, { id }): Promise<ReadResourceResult> => {
+        const output = taskManager.getTaskOutput(String(id), stream);
+        if (!output) {
+          throw taskNotFound(uri, String(id));
+        }
+        return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: output.text }] };
+      }
+    );
+  }
+
+  server.registerResource(
+    'tasks',
+    TASK_LIST_URI,
+    {
+      title: 'Tasks',
+      description: 'All background tasks, newest first, as JSON',
+      mimeType: 'application/json',
+    },
+    async (uri): Promise<ReadResourceResult> => {
+      const { tasks } = taskManager.listTasks({ sortBy: 'created', order: 'desc' });
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(tasks, null, 2) }] };
+    }
+  );
+
+  registerSubscriptions(server);
+}
+
+/**
+ * Track this client's subscriptions and notify it when a subscribed resource changes
+ */
+function registerSubscriptions(server: McpServer): void {
+  const subscriptions = new Set<string>();
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    logger.debug(`Subscribed to ${request.params.uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    clearTimeout(pending.get(request.params.uri));
+    pending.delete(request.params.uri);
+    return {};
+  });
+
+  const schedule = (key: string, send: () => Promise<void> | void) => {
+    if (pending.has(key)) {
+      return;
+    }
+    pending.set(key, setTimeout(() => {
+      pending.delete(key);
+      Promise.resolve(send()).catch((error) => logger.debug(`Could not send resource notification: ${error}`));
+    }, UPDATE_DELAY_MS));
+  };
+
+  const changed = (uri: string) => {
+    if (subscriptions.has(uri)) {
+      schedule(uri, () => server.server.sendResourceUpdated({ uri }));
+    }
+  };
+
+  const unsubscribe = taskManager.onTaskEvent((event: TaskEvent) => {
+    switch (event.type) {
+      case 'output':
+        changed(outputUri(event.taskId, event.stream));
+        break;
+      case 'status':
+      case 'deleted':
+        // A finished task's output is its final result, which replaces the live output
+        changed(taskUri(event.taskId));
+        changed(outputUri(event.taskId, 'stdout'));
+        changed(outputUri(event.taskId, 'stderr'));
+        changed(TASK_LIST_URI);
+        // `resources/list` enumerates the tasks, so a new or deleted task changes it
+        if (event.type === 'deleted' || event.previousStatus === undefined) {
+          schedule('list_changed', () => server.sendResourceListChanged());
+        }
+        break;
+    }
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    unsubscribe();
+    for (const timer of pending.values()) {
+      clearTimeout(timer);
+    }
+    pending.clear();
+    subscriptions.clear();
+  };
+}
+
+function taskNotFound(uri: URL, id: string): McpError {
+  return new McpError(McpErrorCode.InvalidParams, `Task with ID ${id} does not exist`, { uri: uri.href, taskId: id });
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 3)}...` : text;
+}
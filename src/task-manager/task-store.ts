@@ -0,0 +1,279 @@
+/**
+ * Task Store
+ *
+ * Keeps tasks, schedules and the usage ledger across server restarts.
+ *
+ * - `JsonLinesTaskStore` appends every change to `tasks.jsonl` (and
+ *   `schedules.jsonl`) under the data directory and replays the log on startup
+ *   (last record per id wins), compacting it whenever it has grown well beyond
+ *   the live records (on startup and while the server runs).
+ * - `MemoryTaskStore` keeps nothing (TASK_STORE=memory).
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { logger } from '../utils/logger.js';
+import type { Task } from './task-manager.js';
+import type { UsageEntry } from './usage-ledger.js';
+import type { Schedule } from './schedules.js';
+
+export interface TaskStore {
+  /** Every stored task, oldest first */
+  loadTasks(): Task[];
+  /** Insert or replace a task */
+  saveTask(task: Task): void;
+  deleteTask(id: string): void;
+  /** Every recorded usage entry */
+  loadUsage(): UsageEntry[];
+  appendUsage(entry: UsageEntry): void;
+  /** Every stored schedule, oldest first */
+  loadSchedules(): Schedule[];
+  /** Insert or replace a schedule */
+  saveSchedule(schedule: Schedule): void;
+  deleteSchedule(id: string): void;
+}
+
+/** One change in a keyed log: `task` records hold tasks, `schedule` records hold schedules */
+type LogRecord<T> = { op: 'put'; task?: T; schedule?: T } | { op: 'delete'; id: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/** Rewrite a log once it holds this many more records than live tasks */
+const COMPACT_THRESHOLD = 500;
+
+/**
+ * Store that keeps nothing: tasks live only as long as the process
+ */
+export class MemoryTaskStore implements TaskStore {
+  loadTasks(): Task[] {
+    return [];
+  }
+
+  saveTask(): void {}
+
+  deleteTask(): void {}
+
+  loadUsage(): UsageEntry[] {
+    return [];
+  }
+
+  appendUsage(): void {}
+
+  loadSchedules(): Schedule[] {
+    return [];
+  }
+
+  saveSchedule(): void {}
+
+  deleteSchedule(): void {}
+}
+
+/**
+ * Append-only JSON-lines files under a data directory
+ */
+export class JsonLinesTaskStore implements TaskStore {
+  private tasksFile: string;
+  private usageFile: string;
+  private schedulesFile: string;
+  /** Records in each keyed log and the ids still live in it, to know when it is due for compaction */
+  private logStats = new Map<string, { records: number; ids: Set<string> }>();
+
+  constructor(dataDir: string) {
+    mkdirSync(dataDir, { recursive: true });
+    this.tasksFile = join(dataDir, 'tasks.jsonl');
+    this.usageFile = join(dataDir, 'usage.jsonl');
+    this.schedulesFile = join(dataDir, 'schedules.jsonl');
+  }
+
+  loadTasks(): Task[] {
+    return this.loadLog<Task>(this.tasksFile, 'task', reviveTask);
+  }
+
+  saveTask(task: Task): void {
+    this.appendRecord(this.tasksFile, 'task', { op: 'put', task });
+  }
+
+  deleteTask(id: string): void {
+    this.appendRecord(this.tasksFile, 'task', { op: 'delete', id });
+  }
+
+  loadSchedules(): Schedule[] {
+    return this.loadLog<Schedule>(this.schedulesFile, 'schedule', reviveSchedule);
+  }
+
+  saveSchedule(schedule: Schedule): void {
+    this.appendRecord(this.schedulesFile, 'schedule', { op: 'put', schedule });
+  }
+
+  deleteSchedule(id: string): void {
+    this.appendRecord(this.schedulesFile, 'schedule', { op: 'delete', id });
+  }
+
+  loadUsage(): UsageEntry[] {
+    return readJsonLines<UsageEntry>(this.usageFile).map((entry) => reviveDates(entry, ['recordedAt']));
+  }
+
+  appendUsage(entry: UsageEntry): void {
+    this.append(this.usageFile, entry);
+  }
+
+  /**
+   * Replay a keyed log: the live records, oldest first
+   */
+  private loadLog<T extends { id: string; createdAt: Date }>(
+    file: string,
+    key: 'task' | 'schedule',
+    revive: (item: T) => T
+  ): T[] {
+    const { records, items } = replayLog<T>(file, key);
+    items.forEach(revive);
+
+    const live = Array.from(items.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (records - live.length > COMPACT_THRESHOLD) {
+      this.compact(file, key, live);
+    } else {
+      this.logStats.set(file, { records, ids: new Set(items.keys()) });
+    }
+    return live;
+  }
+
+  /**
+   * Append a record to a keyed log, compacting the log once it is mostly superseded records.
+   * Every save of a task writes its full output, so a busy server would otherwise grow the log without bound.
+   */
+  private appendRecord<T extends { id: string }>(file: string, key: 'task' | 'schedule', record: LogRecord<T>): void {
+    this.append(file, record);
+
+    let stats = this.logStats.get(file);
+    if (!stats) {
+      stats = { records: 0, ids: new Set() };
+      this.logStats.set(file, stats);
+    }
+    stats.records++;
+    if (record.op === 'delete') {
+      stats.ids.delete(record.id);
+    } else {
+      stats.ids.add(record[key]!.id);
+    }
+
+    if (stats.records - stats.ids.size > COMPACT_THRESHOLD) {
+      try {
+        this.compact(file, key, Array.from(replayLog<T>(file, key).items.values()));
+      } catch (error) {
+        logger.error(`Failed to compact ${file}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Rewrite a keyed log with one record per live item
+   */
+  private compact<T extends { id: string }>(file: string, key: 'task' | 'schedule', items: T[]): void {
+    const temp = `${file}.tmp`;
+    writeFileSync(temp, items.map((item) => JSON.stringify({ op: 'put', [key]: item }) + '\n').join(''));
+    renameSync(temp, file);
+    this.logStats.set(file, { records: items.length, ids: new Set(items.map((item) => item.id)) });
+    logger.info(`Compacted ${file} to ${items.length} record(s)`);
+  }
+
+  private append(file: string, record: unknown): void {
+    try {
+      appendFileSync(file, JSON.stringify(record) + '\n');
+    } catch (error) {
+      // Losing persistence must not take the running task down with it
+      logger.error(`Failed to write ${file}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Create the store configured by TASK_STORE (jsonl or memory, default jsonl)
+ * and BACK_AGENT_DATA_DIR (default ~/.back-agent-mcp)
+ */
+export function createTaskStore(): TaskStore {
+  if (process.env.TASK_STORE?.toLowerCase() === 'memory') {
+    return new MemoryTaskStore();
+  }
+
+  const dataDir = resolve(process.env.BACK_AGENT_DATA_DIR ?? join(homedir(), '.back-agent-mcp'));
+  try {
+    return new JsonLinesTaskStore(dataDir);
+  } catch (error) {
+    logger.error(`Cannot use data directory ${dataDir}, tasks will not be persisted: ${error}`);
+    return new MemoryTaskStore();
+  }
+}
+
+/**
+ * Replay a keyed log (last record per id wins): the live items, and how many records the log holds
+ */
+function replayLog<T extends { id: string }>(file: string, key: 'task' | 'schedule'): { records: number; items: Map<string, T> } {
+  const records = readJsonLines<LogRecord<T>>(file);
+  const items = new Map<string, T>();
+  for (const record of records) {
+    if (record.op === 'delete') {
+      items.delete(record.id);
+    } else if (record[key]) {
+      items.set(record[key]!.id, record[key]!);
+    }
+  }
+  return { records: records.length, items };
+}
+
+/**
+ * Read a JSON-lines file, skipping damaged lines (e.g. a write cut short by a crash)
+ */
+function readJsonLines<T>(file: string): T[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  const records: T[] = [];
+  const lines = readFileSync(file, 'utf8').split('\n');
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      logger.warn(`Skipping unreadable record at ${file}:${index + 1}`);
+    }
+  });
+  return records;
+}
+
+/**
+ * Turn a stored task's dates back into Date objects. Only these known fields are
+ * revived: results and options may hold user data with the same key names.
+ */
+function reviveTask(task: Task): Task {
+  reviveDates(task, ['createdAt', 'startedAt', 'completedAt']);
+  for (const attempt of [...task.attempts ?? [], ...task.result?.attempts ?? []]) {
+    reviveDates(attempt, ['startedAt', 'completedAt']);
+  }
+  return task;
+}
+
+function reviveSchedule(schedule: Schedule): Schedule {
+  reviveDates(schedule, ['runAt', 'createdAt', 'nextRunAt', 'lastRunAt']);
+  for (const run of schedule.runs ?? []) {
+    reviveDates(run, ['scheduledFor', 'firedAt']);
+  }
+  return schedule;
+}
+
+/**
+ * Replace the ISO timestamps JSON.stringify wrote for the given fields with dates
+ */
+function reviveDates<T extends object>(record: T, keys: Array<keyof T & string>): T {
+  const fields = record as Record<string, unknown>;
+  for (const key of keys) {
+    const value = fields[key];
+    if (typeof value === 'string' && ISO_DATE.test(value)) {
+      fields[key] = new Date(value);
+    }
+  }
+  return record;
+}
@@ -7,21 +7,69 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { taskManager, TaskInfo } from './task-manager.js';
+import { FINISHED_STATUSES, taskManager, TaskInfo } from './task-manager.js';
+import type { SpendSummary, UsageTotals } from './usage-ledger.js';
+import type { WorktreeCommit } from '../git/worktree.js';
 import { logger } from '../utils/logger.js';
-import { createErrorResponse } from '../utils/error-handler.js';
+import { createErrorResponse, ErrorCode, McpServerError } from '../utils/error-handler.js';
+import { formatChangeSummary, formatStructuredResult } from '../utils/result-formatter.js';
+import { retryPolicySchema, toRetryPolicy } from '../server/tools/execute-task.js';
+import { createProgressReporter, ToolExtra } from '../server/progress.js';
+import { formatExecutionEvent } from '../claude/progress.js';
+import { TASK_PRIORITIES, TaskPriority } from './scheduler.js';
+import { RUN_CONDITIONS, RunCondition, WorkflowSummary } from './workflow.js';
+import { CATCH_UP_POLICIES, CatchUpPolicy, Schedule } from './schedules.js';
+import { TASK_SORT_FIELDS, TaskPage, TaskSortField } from './task-query.js';
+import { toAttemptOutput, toolOutputSchema, withTrace } from '../server/result-schemas.js';
+import {
+  applyResultSchema,
+  cleanupReportSchema,
+  deletedResultSchema,
+  outputTailSchema,
+  queueResultSchema,
+  rollbackResultSchema,
+  scheduleListResultSchema,
+  scheduleResultSchema,
+  statsResultSchema,
+  taskDiffResultSchema,
+  taskOutputResultSchema,
+  taskPageSchema,
+  taskResultSchema,
+  taskStatusResultSchema,
+  taskStatusSchema,
+  toQueueEntryOutput,
+  toScheduleOutput,
+  toWorkflowOutput,
+  waitResultSchema,
+  workflowResultSchema,
+} from './result-schemas.js';
 
 /**
  * Register all task management tools with the MCP server
  */
 export function registerTaskManagementTools(server: McpServer): void {
   registerCreateTaskTool(server);
+  registerContinueTaskTool(server);
   registerGetTaskStatusTool(server);
+  registerWaitForTasksTool(server);
   registerGetTaskResultTool(server);
+  registerTailTaskOutputTool(server);
+  registerGetTaskDiffTool(server);
   registerCancelTaskTool(server);
   registerListTasksTool(server);
   registerDeleteTaskTool(server);
+  registerPinTaskTool(server);
+  registerCleanupTasksTool(server);
   registerGetTaskStatsTool(server);
+  registerGetQueueTool(server);
+  registerCreateWorkflowTool(server);
+  registerGetWorkflowStatusTool(server);
+  registerScheduleTaskTool(server);
+  registerListSchedulesTool(server);
+  registerDeleteScheduleTool(server);
+  registerApplyTaskChangesTool(server);
+  registerDiscardTaskChangesTool(server);
+  registerRollbackTaskTool(server);
 
   logger.info('Registered task management tools');
 }
@@ -41,7 +89,66 @@ const createTaskSchema = z.object({
     'Defaults to the current workspace directory if not specified.'
   ),
   timeout: z.number().min(1).max(3600).optional().describe('Timeout in seconds (max 3600)'),
+  idleTimeout: z.number().min(1).max(3600).optional().describe(
+    'Kill the task if it produces no output for this many seconds (default: IDLE_TIMEOUT, else disabled). ' +
+    'Independently, a task that prints an interactive prompt (e.g. an auth or y/n question) and then stalls is stopped.'
+  ),
   additionalArgs: z.array(z.string()).optional().describe('Additional CLI arguments'),
+  retry: retryPolicySchema.optional(),
+  maxCostUsd: z.number().min(0).optional().describe(
+    'Per-task budget in USD (default: MAX_TASK_COST_USD). Claude Code is started with --max-budget-usd set to ' +
+    'what is left of it and stops itself there; a run reporting a higher running cost (stream-json) is killed, ' +
+    'and failed attempts are not retried once it is spent. Costs are only tracked for stream-json tasks.'
+  ),
+  outputFormat: z.enum(['text', 'stream-json']).optional().describe(
+    'CLI output format (default: text). stream-json records the final answer and a structured run trace, ' +
+    'and is required to resume the task later with continue-task.'
+  ),
+  backend: z.string().optional().describe(
+    'Agent backend to run the task with (default: claude). Built-in: claude, fake; ' +
+    'custom is available when CUSTOM_AGENT_COMMAND is configured.'
+  ),
+  isolation: z.enum(['none', 'worktree']).optional().describe(
+    'Isolation mode (default: none). "worktree" runs the task in a temporary git worktree on a fresh branch, ' +
+    'so concurrent tasks on the same repository cannot trample each other. The result reports the branch, ' +
+    'commits and diff; use apply-task-changes or discard-task-changes afterwards.'
+  ),
+  captureChanges: z.boolean().optional().describe(
+    'Snapshot the working directory before and after the task to record added, modified and deleted files ' +
+    'with line counts and a full patch (default: false). Outside git repositories this hashes every file, ' +
+    'so point workingDirectory at the project rather than a home directory. See get-task-result and get-task-diff.'
+  ),
+  checkpoint: z.boolean().optional().describe(
+    'Checkpoint the working directory before the task starts so its changes can be undone with rollback-task ' +
+    '(default: false). Git repositories get a snapshot commit on a hidden ref; other directories are copied. ' +
+    'Not needed with isolation "worktree".'
+  ),
+  priority: z.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]]).optional().describe(
+    'Queue priority: low, normal, high or urgent (default: normal). When all slots are busy, higher priorities ' +
+    'start first; tasks of equal priority start in creation order. See get-queue.'
+  ),
+  concurrencyKey: z.string().optional().describe(
+    'Tasks with the same key run one at a time so they cannot clobber each other\'s edits (default: the repository ' +
+    'root of the working directory, or the directory itself outside git). Tasks with different keys run in parallel.'
+  ),
+  readOnly: z.boolean().optional().describe(
+    'The task only reads files (e.g. reviews or questions), so it takes no lock and may run alongside ' +
+    'other tasks in the same repository (default: false)'
+  ),
+  dependsOn: z.array(z.string()).optional().describe(
+    'IDs of tasks that must finish first. The task stays "blocked" until then, and is skipped (cancelled) ' +
+    'if its runIf condition can no longer be met.'
+  ),
+  runIf: z.enum(RUN_CONDITIONS as [RunCondition, ...RunCondition[]]).optional().describe(
+    'When a task with dependencies runs: "success" if all of them succeeded (default), "failure" if any failed, ' +
+    '"always" once all finished'
+  ),
+  pinned: z.boolean().optional().describe(
+    'Keep the task and its output when finished tasks are cleaned up (default: false). See pin-task.'
+  ),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional().describe(
+    'Labels to find the task by later, e.g. ["release-1.2", "docs"] (see list-tasks). Follow-ups of continue-task keep them.'
+  ),
 });
 
 function registerCreateTaskTool(server: McpServer): void {
@@ -54,30 +161,70 @@ function registerCreateTaskTool(server: McpServer): void {
         '**What it does:**\n' +
         '- Creates a non-blocking background task\n' +
         '- Returns task ID immediately for tracking\n' +
-        '- Up to 3 tasks run concurrently by default\n\n' +
+        '- Up to 3 tasks run concurrently by default; the rest wait in a priority queue\n' +
+        '- Sends the task\'s status changes, tool calls and condensed output as log messages while it runs\n\n' +
         '**What it does NOT do:**\n' +
         '- NOT a direct shell/bash command executor\n' +
-        '- Does NOT return raw stdout/stddr from commands\n\n' +
+        '- Does NOT return raw stdout/stderr from commands\n\n' +
         'Returns a task ID. Use get-task-status to check progress and get-task-result to retrieve the output.',
       inputSchema: createTaskSchema,
+      outputSchema: toolOutputSchema(taskResultSchema),
     },
-    async (input: unknown): Promise<CallToolResult> => {
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
       const result = createTaskSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
-      const { task, workingDirectory, timeout, additionalArgs } = result.data;
+      const {
+        task,
+        workingDirectory,
+        timeout,
+        idleTimeout,
+        additionalArgs,
+        retry,
+        maxCostUsd,
+        outputFormat,
+        backend,
+        isolation,
+        captureChanges,
+        checkpoint,
+        priority,
+        concurrencyKey,
+        readOnly,
+        dependsOn,
+        runIf,
+        pinned,
+        tags,
+      } = result.data;
 
       try {
         const taskId = await taskManager.createTask({
           task,
           workingDirectory,
           timeout,
+          idleTimeout,
           additionalArgs,
+          retry: toRetryPolicy(retry),
+          maxCostUsd,
+          outputFormat,
+          backend,
+          isolation,
+          captureChanges,
+          checkpoint,
+          priority,
+          concurrencyKey,
+          readOnly,
+          dependsOn,
+          runIf,
+          pinned,
+          tags,
+          clientSessionId: extra.sessionId,
         });
 
         logger.info(`Created task ${taskId}`);
+        forwardTaskEvents(server, extra, taskId);
+        const taskInfo = taskManager.getTask(taskId)!;
 
         return {
           content: [{
@@ -85,10 +232,11 @@ function registerCreateTaskTool(server: McpServer): void {
             text: `## Task Created\n\n` +
               `**Task ID:** ${taskId}\n` +
               `**Task:** ${task.substring(0, 100)}${task.length > 100 ? '...' : ''}\n` +
-              `**Status:** pending\n\n` +
+              `**Status:** ${taskInfo.status}\n\n` +
               `Use \`get-task-status\` with ID \`${taskId}\` to check progress.\n` +
               `Use \`get-task-result\` with ID \`${taskId}\` to get the result when complete.`,
           }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskResultSchema>,
         };
       } catch (error) {
         logger.error(`Error creating task: ${error}`);
@@ -98,6 +246,84 @@ function registerCreateTaskTool(server: McpServer): void {
   );
 }
 
+/**
+ * Continue a previous task's Claude Code session
+ */
+const continueTaskSchema = z.object({
+  taskId: z.string().describe('ID of the finished task whose Claude Code session should be resumed'),
+  task: z.string().describe(
+    'Follow-up prompt, e.g. "Now also add tests for that". ' +
+    'Runs with the previous conversation as context, in the same working directory.'
+  ),
+  timeout: z.number().min(1).max(3600).optional().describe('Timeout in seconds (max 3600, defaults to the previous task\'s timeout)'),
+  idleTimeout: z.number().min(1).max(3600).optional().describe(
+    'Inactivity timeout in seconds (defaults to the previous task\'s idle timeout)'
+  ),
+  additionalArgs: z.array(z.string()).optional().describe('Additional CLI arguments (defaults to the previous task\'s arguments)'),
+  retry: retryPolicySchema.optional().describe('Retry policy (defaults to the previous task\'s policy)'),
+  maxCostUsd: z.number().min(0).optional().describe('Per-task budget in USD (defaults to the previous task\'s budget)'),
+  priority: z.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]]).optional().describe(
+    'Queue priority (defaults to the previous task\'s priority)'
+  ),
+});
+
+function registerContinueTaskTool(server: McpServer): void {
+  server.registerTool(
+    'continue-task',
+    {
+      description: 'Continue a finished task\'s Claude Code conversation with a follow-up prompt.\n\n' +
+        'Creates a new background task that resumes the previous task\'s session (`--resume`) in the same ' +
+        'working directory, so Claude keeps the full context of what it did before. ' +
+        'The new task is linked to its parent; get-task-status shows the conversation chain.\n\n' +
+        'Returns the new task ID.',
+      inputSchema: continueTaskSchema,
+      outputSchema: toolOutputSchema(taskResultSchema),
+    },
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
+      const result = continueTaskSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId: parentId, task, timeout, idleTimeout, additionalArgs, retry, maxCostUsd, priority } = result.data;
+
+      try {
+        const taskId = await taskManager.continueTask(parentId, {
+          task,
+          timeout,
+          idleTimeout,
+          additionalArgs,
+          retry: toRetryPolicy(retry),
+          maxCostUsd,
+          priority,
+          clientSessionId: extra.sessionId,
+        });
+
+        logger.info(`Created follow-up task ${taskId} for ${parentId}`);
+        forwardTaskEvents(server, extra, taskId);
+        const taskInfo = taskManager.getTask(taskId)!;
+
+        return {
+          content: [{
+            type: 'text',
+            text: `## Follow-up Task Created\n\n` +
+              `**Task ID:** ${taskId}\n` +
+              `**Continues:** ${parentId}\n` +
+              `**Task:** ${task.substring(0, 100)}${task.length > 100 ? '...' : ''}\n` +
+              `**Status:** ${taskInfo.status}\n\n` +
+              `Use \`get-task-status\` with ID \`${taskId}\` to check progress.\n` +
+              `Use \`get-task-result\` with ID \`${taskId}\` to get the result when complete.`,
+          }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error continuing task: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
 /**
  * Get task status
  */
@@ -109,86 +335,177 @@ function registerGetTaskStatusTool(server: McpServer): void {
   server.registerTool(
     'get-task-status',
     {
-      description: 'Get the current status of a task. Returns status, timestamps, and basic info.',
+      description: 'Get the current status of a task. Returns status, timestamps, and basic info, ' +
+        'plus the conversation chain for tasks created with continue-task.',
       inputSchema: getTaskStatusSchema,
+      outputSchema: toolOutputSchema(taskStatusResultSchema),
     },
     async (input: unknown): Promise<CallToolResult> => {
       const result = getTaskStatusSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
       const { taskId } = result.data;
-      const taskInfo = taskManager.getTask(taskId);
+      const chain = taskManager.getTaskChain(taskId);
 
-      if (!taskInfo) {
-        return {
-          content: [{
-            type: 'text',
-            text: `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`,
-          }],
-          isError: true,
-        };
+      if (!chain) {
+        return taskNotFoundResponse(taskId);
       }
 
       return {
         content: [{
           type: 'text',
-          text: formatTaskInfo(taskInfo),
+          text: formatTaskInfo(chain.task) +
+            formatAttempts(chain.task) +
+            formatTaskChain(chain.ancestors, chain.task, chain.followUps),
         }],
+        structuredContent: chain satisfies z.infer<typeof taskStatusResultSchema>,
       };
     }
   );
 }
 
+/**
+ * Wait for tasks to finish
+ */
+const waitForTasksSchema = z.object({
+  taskIds: z.array(z.string()).min(1).max(100).describe('IDs of the tasks to wait for'),
+  mode: z.enum(['any', 'all']).optional().describe(
+    'Return as soon as any of the tasks has finished, or only once all of them have (default: all)'
+  ),
+  timeout: z.number().min(0).max(600).optional().describe(
+    'Maximum wait in seconds (default: 30, max 600). Keep it below the client\'s request timeout. ' +
+    'On timeout the current statuses are returned.'
+  ),
+});
+
+function registerWaitForTasksTool(server: McpServer): void {
+  server.registerTool(
+    'wait-for-tasks',
+    {
+      description: 'Wait until one or all of the given tasks have finished (completed, failed, cancelled or interrupted), ' +
+        'then return their statuses. Returns immediately when the tasks are already finished and as soon as ' +
+        'they finish otherwise, so there is no need to poll get-task-status. On timeout the current statuses ' +
+        'are returned; call it again to keep waiting. With a progress token, progress notifications report the ' +
+        'tasks\' status changes and tool calls while waiting.',
+      inputSchema: waitForTasksSchema,
+      outputSchema: toolOutputSchema(waitResultSchema),
+    },
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
+      const result = waitForTasksSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskIds, mode = 'all', timeout = 30 } = result.data;
+
+      // Output is already forwarded as log messages to the client that created the tasks
+      const progress = createProgressReporter(server, extra, { log: false });
+      const unsubscribe = taskManager.onTaskEvent((event) => {
+        if (!taskIds.includes(event.taskId)) {
+          return;
+        }
+        if (event.type === 'status') {
+          progress.notify(`Task ${event.taskId}: ${event.status}`);
+        } else if (event.type === 'progress' && event.event.type !== 'output') {
+          progress.notify(`Task ${event.taskId}: ${formatExecutionEvent(event.event)}`);
+        }
+      });
+
+      try {
+        const wait = await taskManager.waitForTasks(taskIds, { mode, timeoutMs: timeout * 1000, signal: extra.signal });
+
+        const heading = wait.satisfied
+          ? mode === 'any' ? 'Task Finished' : 'All Tasks Finished'
+          : 'Still Waiting (timed out)';
+        let output = `## ${heading}\n\n`;
+        output += `Waited ${(wait.waitedMs / 1000).toFixed(1)}s for ${mode === 'any' ? 'any' : 'all'} of ${taskIds.length} task(s).\n\n`;
+        output += `| Task ID | Status | Success | Task |\n`;
+        output += `|---------|--------|---------|------|\n`;
+        for (const task of wait.tasks) {
+          const success = task.success === undefined ? '-' : task.success ? 'Yes' : 'No';
+          const text = task.task.substring(0, 40).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+          output += `| \`${task.id}\` | ${task.status} | ${success} | ${text}${task.task.length > 40 ? '...' : ''} |\n`;
+        }
+        for (const id of wait.deleted) {
+          output += `| \`${id}\` | deleted | - | - |\n`;
+        }
+        output += `\nUse \`get-task-result\` to retrieve the output of finished tasks.`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent: { ...wait, mode } satisfies z.infer<typeof waitResultSchema>,
+        };
+      } catch (error) {
+        return createErrorResponse(error);
+      } finally {
+        unsubscribe();
+        progress.stop();
+      }
+    }
+  );
+}
+
 /**
  * Get task result with full output
  */
+const getTaskResultSchema = z.object({
+  taskId: z.string().describe('The task ID'),
+  includeTrace: z.boolean().optional().describe(
+    'Include the list of tool invocations (name, input, outcome) for stream-json tasks (default: false)'
+  ),
+});
+
 function registerGetTaskResultTool(server: McpServer): void {
   server.registerTool(
     'get-task-result',
     {
-      description: 'Get the full result of a task including stdout/stderr output. ' +
+      description: 'Get the full result of a task. For stream-json tasks the final answer is shown first, ' +
+        'followed by a run summary; pass includeTrace to see every tool invocation. ' +
         'Only available for completed tasks.',
-      inputSchema: getTaskStatusSchema,
+      inputSchema: getTaskResultSchema,
+      outputSchema: toolOutputSchema(taskOutputResultSchema),
     },
     async (input: unknown): Promise<CallToolResult> => {
-      const result = getTaskStatusSchema.safeParse(input);
+      const result = getTaskResultSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
-      const { taskId } = result.data;
+      const { taskId, includeTrace = false } = result.data;
       const taskResult = taskManager.getTaskResult(taskId);
 
       if (!taskResult) {
-        return {
-          content: [{
-            type: 'text',
-            text: `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`,
-          }],
-          isError: true,
-        };
+        return taskNotFoundResponse(taskId);
       }
 
-      const { taskInfo, stdout, stderr } = taskResult;
+      const { taskInfo, stdout, stderr, structured, commits, diff, changes } = taskResult;
 
       // taskInfo is guaranteed to be non-null here since taskResult was not null
       if (!taskInfo) {
-        return {
-          content: [{
-            type: 'text',
-            text: `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`,
-          }],
-          isError: true,
-        };
+        return taskNotFoundResponse(taskId);
       }
 
       let output = formatTaskInfo(taskInfo);
+      const structuredContent: z.infer<typeof taskOutputResultSchema> = { task: taskInfo };
 
       if (taskInfo.status === 'running' || taskInfo.status === 'pending') {
-        output += `\n\n**Note:** Task is still ${taskInfo.status}. Result not available yet.`;
+        output += `\n\n**Note:** Task is still ${taskInfo.status}. Result not available yet; ` +
+          'use `tail-task-output` to follow its output as it runs.';
+      } else if (structured) {
+        output += `\n\n${formatStructuredResult(structured, { includeTrace })}`;
+        if (stderr) {
+          output += `\n\n### Standard Error:\n\`\`\`\n${stderr.trim()}\n\`\`\``;
+        }
+        structuredContent.run = withTrace(structured, includeTrace);
+        structuredContent.stderr = stderr || undefined;
       } else if (stdout !== undefined || stderr !== undefined) {
+        structuredContent.stdout = stdout;
+        structuredContent.stderr = stderr;
         if (stdout) {
           output += `\n\n### Standard Output:\n\`\`\`\n${stdout.trim()}\n\`\`\``;
         }
@@ -197,11 +514,170 @@ function registerGetTaskResultTool(server: McpServer): void {
         }
       }
 
+      if (changes && taskInfo.status !== 'running' && taskInfo.status !== 'pending') {
+        structuredContent.changes = changes;
+        output += `\n\n${formatChangeSummary(changes)}`;
+        if (changes.patch) {
+          output += `\n\nUse \`get-task-diff\` to see the full patch.`;
+        }
+      }
+
+      if (commits !== undefined && taskInfo.status !== 'running' && taskInfo.status !== 'pending') {
+        structuredContent.commits = commits;
+        structuredContent.diff = diff;
+        output += `\n\n${formatWorktreeChanges(taskInfo, commits, diff)}`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: output,
+        }],
+        structuredContent,
+      };
+    }
+  );
+}
+
+/**
+ * Read a task's output from a cursor, while it runs or after it has finished
+ */
+const tailTaskOutputSchema = z.object({
+  taskId: z.string().describe('The task ID'),
+  cursor: z.number().int().min(0).optional().describe(
+    'Where to continue reading: the nextCursor of the previous call (default: 0, the start of the output)'
+  ),
+  unit: z.enum(['bytes', 'lines']).optional().describe(
+    'Whether the cursor counts bytes or complete lines (default: bytes). Keep the same unit between calls.'
+  ),
+  limit: z.number().int().min(1).max(1024 * 1024).optional().describe(
+    'Most bytes or lines to return (default: 65536 bytes or 500 lines); at least one whole character is always returned'
+  ),
+  assistantOnly: z.boolean().optional().describe(
+    'Return only Claude\'s text messages instead of the raw stream-json events (stream-json tasks only, default: false)'
+  ),
+});
+
+function registerTailTaskOutputTool(server: McpServer): void {
+  server.registerTool(
+    'tail-task-output',
+    {
+      description: 'Read the output of a task from a cursor, including while it is still running. Returns the ' +
+        'output since the cursor and the cursor to pass next time, so a long-running task can be followed without ' +
+        'receiving anything twice. For stream-json tasks, assistantOnly returns just Claude\'s messages.',
+      inputSchema: tailTaskOutputSchema,
+      outputSchema: toolOutputSchema(outputTailSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = tailTaskOutputSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId, cursor, unit, limit, assistantOnly } = result.data;
+
+      try {
+        const tail = taskManager.tailTaskOutput(taskId, { cursor, unit, limit, assistantOnly });
+
+        let output = `## Output of Task ${taskId}\n\n`;
+        output += `**Status:** ${tail.status}${tail.attempt && tail.attempt > 1 ? ` (attempt ${tail.attempt})` : ''}\n`;
+        output += `**Range:** ${tail.unit} ${tail.cursor}-${tail.nextCursor}\n`;
+        output += `**Next Cursor:** \`${tail.nextCursor}\` (unit: ${tail.unit})\n\n`;
+
+        if (tail.reset) {
+          output += `*The cursor was past the end of the output (a retry starts its output afresh); reading from the start.*\n\n`;
+        }
+
+        if (tail.text) {
+          output += `\`\`\`\n${tail.text}${tail.text.endsWith('\n') ? '' : '\n'}\`\`\`\n\n`;
+        } else {
+          output += tail.complete ? 'No output past the cursor.\n\n' : 'No new output yet.\n\n';
+        }
+
+        if (tail.hasMore) {
+          output += '*More output is available; call again with the next cursor.*';
+        } else if (tail.complete) {
+          output += '*The task has finished; this is the end of its output.*';
+        } else if (tail.status === 'pending' || tail.status === 'blocked') {
+          output += `*The task has not started yet.*`;
+        } else {
+          output += '*The task is still running; call again with the next cursor for more.*';
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent: { ...tail } satisfies z.infer<typeof outputTailSchema>,
+        };
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Get the patch of the files a task changed
+ */
+function registerGetTaskDiffTool(server: McpServer): void {
+  server.registerTool(
+    'get-task-diff',
+    {
+      description: 'Get the unified diff (patch) of all files a finished task added, modified or deleted.',
+      inputSchema: getTaskStatusSchema,
+      outputSchema: toolOutputSchema(taskDiffResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = getTaskStatusSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId } = result.data;
+      const taskDiff = taskManager.getTaskDiff(taskId);
+
+      if (!taskDiff) {
+        return taskNotFoundResponse(taskId);
+      }
+
+      const { taskInfo, changes } = taskDiff;
+
+      if (taskInfo.status === 'running' || taskInfo.status === 'pending') {
+        return {
+          content: [{
+            type: 'text',
+            text: `## Diff Not Available\n\nTask \`${taskId}\` is still ${taskInfo.status}.`,
+          }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskDiffResultSchema>,
+        };
+      }
+
+      if (!changes) {
+        return {
+          content: [{
+            type: 'text',
+            text: `## Diff Not Available\n\nChanges were not captured for task \`${taskId}\` (create it with captureChanges: true).`,
+          }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskDiffResultSchema>,
+        };
+      }
+
+      let output = `## Diff for Task ${taskId}\n\n`;
+      output += `**${changes.files.length} file(s) changed**, +${changes.additions} / -${changes.deletions} lines\n`;
+      if (changes.patch) {
+        output += `\n\`\`\`diff\n${changes.patch.trim()}\n\`\`\``;
+      } else if (changes.files.length > 0) {
+        output += `\n_The patch was not recorded for this task._`;
+      }
+
       return {
         content: [{
           type: 'text',
           text: output,
         }],
+        structuredContent: { task: taskInfo, changes } satisfies z.infer<typeof taskDiffResultSchema>,
       };
     }
   );
@@ -214,13 +690,15 @@ function registerCancelTaskTool(server: McpServer): void {
   server.registerTool(
     'cancel-task',
     {
-      description: 'Cancel a pending or running task.',
+      description: 'Cancel a pending or running task. A running task\'s Claude Code process (and everything it spawned) ' +
+        'is terminated; any partial output is kept in the task result.',
       inputSchema: getTaskStatusSchema,
+      outputSchema: toolOutputSchema(taskResultSchema),
     },
     async (input: unknown): Promise<CallToolResult> => {
       const result = getTaskStatusSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
       const { taskId } = result.data;
@@ -229,28 +707,25 @@ function registerCancelTaskTool(server: McpServer): void {
       if (!cancelled) {
         const taskInfo = taskManager.getTask(taskId);
         if (!taskInfo) {
-          return {
-            content: [{
-              type: 'text',
-              text: `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`,
-            }],
-            isError: true,
-          };
+          return taskNotFoundResponse(taskId);
         }
-        return {
-          content: [{
-            type: 'text',
-            text: `## Cannot Cancel Task\n\nTask with ID \`${taskId}\` is ${taskInfo.status} and cannot be cancelled.`,
-          }],
-          isError: true,
-        };
+        return createErrorResponse(
+          new McpServerError(
+            ErrorCode.INVALID_TASK_STATE,
+            `Task ${taskId} is ${taskInfo.status} and cannot be cancelled`,
+            { taskId, status: taskInfo.status }
+          ),
+          `## Cannot Cancel Task\n\nTask with ID \`${taskId}\` is ${taskInfo.status} and cannot be cancelled.`
+        );
       }
 
       return {
         content: [{
           type: 'text',
-          text: `## Task Cancelled\n\nTask \`${taskId}\` has been cancelled.`,
+          text: `## Task Cancelled\n\nTask \`${taskId}\` has been cancelled. ` +
+            `Partial output (if any) is available via \`get-task-result\`.`,
         }],
+        structuredContent: { task: taskManager.getTask(taskId)! } satisfies z.infer<typeof taskResultSchema>,
       };
     }
   );
@@ -263,26 +738,22 @@ function registerDeleteTaskTool(server: McpServer): void {
   server.registerTool(
     'delete-task',
     {
-      description: 'Delete a task from the task list. Use this to clean up old completed tasks.',
+      description: 'Delete a task from the task list. Use this to clean up old completed tasks. ' +
+        'A running task is stopped first; the worktree of an isolated task is removed with it.',
       inputSchema: getTaskStatusSchema,
+      outputSchema: toolOutputSchema(deletedResultSchema),
     },
     async (input: unknown): Promise<CallToolResult> => {
       const result = getTaskStatusSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
       const { taskId } = result.data;
       const deleted = taskManager.deleteTask(taskId);
 
       if (!deleted) {
-        return {
-          content: [{
-            type: 'text',
-            text: `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`,
-          }],
-          isError: true,
-        };
+        return taskNotFoundResponse(taskId);
       }
 
       return {
@@ -290,59 +761,117 @@ function registerDeleteTaskTool(server: McpServer): void {
           type: 'text',
           text: `## Task Deleted\n\nTask \`${taskId}\` has been deleted from the task list.`,
         }],
+        structuredContent: { id: taskId, deleted: true } satisfies z.infer<typeof deletedResultSchema>,
       };
     }
   );
 }
 
 /**
- * List all tasks
+ * Pin or unpin a task
  */
-const listTasksSchema = z.object({
-  status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional()
-    .describe('Filter by status (optional)'),
-  limit: z.number().optional().describe('Maximum number of tasks to return (default: 50)'),
+const pinTaskSchema = z.object({
+  taskId: z.string().describe('The task ID'),
+  pinned: z.boolean().optional().describe('Pin (true, default) or unpin (false) the task'),
 });
 
-function registerListTasksTool(server: McpServer): void {
+function registerPinTaskTool(server: McpServer): void {
   server.registerTool(
-    'list-tasks',
+    'pin-task',
     {
-      description: 'List all tasks, optionally filtered by status.',
-      inputSchema: listTasksSchema,
+      description: 'Pin a task so automatic and manual cleanup keep it and its output, or unpin it again.',
+      inputSchema: pinTaskSchema,
+      outputSchema: toolOutputSchema(taskResultSchema),
     },
     async (input: unknown): Promise<CallToolResult> => {
-      const result = listTasksSchema.safeParse(input);
+      const result = pinTaskSchema.safeParse(input);
       if (!result.success) {
-        return createErrorResponse(new Error(`Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
       }
 
-      const { status, limit } = result.data;
-      let tasks = taskManager.listTasks();
-
-      if (status) {
-        tasks = tasks.filter(t => t.status === status);
-      }
-
-      if (limit) {
-        tasks = tasks.slice(0, limit);
-      }
+      const { taskId, pinned = true } = result.data;
 
-      if (tasks.length === 0) {
+      try {
+        const taskInfo = taskManager.pinTask(taskId, pinned);
         return {
           content: [{
             type: 'text',
-            text: `## No Tasks Found\n\n${status ? `No tasks with status "${status}".` : 'No tasks found.'}`,
+            text: pinned
+              ? `## Task Pinned\n\nTask \`${taskId}\` is kept when finished tasks are cleaned up.`
+              : `## Task Unpinned\n\nTask \`${taskId}\` can be removed by cleanup again.`,
           }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskResultSchema>,
         };
+      } catch (error) {
+        logger.error(`Error pinning task: ${error}`);
+        return createErrorResponse(error);
       }
+    }
+  );
+}
 
-      const stats = taskManager.getStats();
-      let output = `## Tasks (${tasks.length} shown)\n\n`;
-      output += `**Stats:** ${stats.pending} pending, ${stats.running} running, ${stats.completed} completed, ${stats.failed} failed, ${stats.cancelled} cancelled\n\n`;
+/**
+ * Remove finished tasks beyond the retention limits
+ */
+const cleanupTasksSchema = z.object({
+  dryRun: z.boolean().optional().describe('Only report which tasks would be removed (default: false)'),
+  maxAgeHours: z.number().min(0).optional().describe(
+    'Remove finished tasks that finished longer ago than this (default: RETENTION_MAX_AGE_HOURS)'
+  ),
+  maxTasks: z.number().int().min(0).optional().describe(
+    'Remove the oldest finished tasks while more tasks than this are kept (default: RETENTION_MAX_TASKS)'
+  ),
+  maxOutputMb: z.number().min(0).optional().describe(
+    'Remove the oldest finished tasks while their output totals more than this many MB (default: RETENTION_MAX_OUTPUT_MB)'
+  ),
+});
 
-      for (const task of tasks) {
-        output += formatTaskInfoShort(task);
+function registerCleanupTasksTool(server: McpServer): void {
+  server.registerTool(
+    'cleanup-tasks',
+    {
+      description: 'Remove finished tasks, oldest first, until the retention limits on age, number of tasks and ' +
+        'total output size hold. Limits given here replace the configured ones for this run. The same cleanup runs ' +
+        'in the background; pinned tasks, unfinished tasks, tasks others still depend on and isolated tasks with ' +
+        'unapplied changes are never removed. Use dryRun to preview.',
+      inputSchema: cleanupTasksSchema,
+      outputSchema: toolOutputSchema(cleanupReportSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = cleanupTasksSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { dryRun, maxAgeHours, maxTasks, maxOutputMb } = result.data;
+      const report = taskManager.cleanup({
+        dryRun,
+        maxAgeMs: maxAgeHours !== undefined ? maxAgeHours * 60 * 60 * 1000 : undefined,
+        maxTasks,
+        maxOutputBytes: maxOutputMb !== undefined ? maxOutputMb * 1024 * 1024 : undefined,
+      });
+
+      const { policy } = report;
+      let output = report.dryRun ? `## Cleanup Preview (dry run)\n\n` : `## Cleanup Complete\n\n`;
+      output += `| Property | Value |\n`;
+      output += `|----------|-------|\n`;
+      output += `| Max Age | ${policy.maxAgeMs !== undefined ? `${(policy.maxAgeMs / 3600000).toFixed(1)}h` : 'none'} |\n`;
+      output += `| Max Tasks | ${policy.maxTasks ?? 'none'} |\n`;
+      output += `| Max Output | ${policy.maxOutputBytes !== undefined ? formatBytes(policy.maxOutputBytes) : 'none'} |\n`;
+      output += `| Tasks | ${report.before.tasks} -> ${report.after.tasks} |\n`;
+      output += `| Output | ${formatBytes(report.before.outputBytes)} -> ${formatBytes(report.after.outputBytes)} |\n\n`;
+
+      if (report.removed.length === 0) {
+        output += 'No tasks to remove.\n';
+      } else {
+        output += `### ${report.dryRun ? 'Would Remove' : 'Removed'} (${report.removed.length})\n\n`;
+        output += `| Task ID | Status | Finished | Reason | Output | Task |\n`;
+        output += `|---------|--------|----------|--------|--------|------|\n`;
+        for (const task of report.removed) {
+          const finished = task.completedAt ? new Date(task.completedAt).toLocaleString() : '-';
+          const text = task.task.substring(0, 40).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+          output += `| \`${task.id}\` | ${task.status} | ${finished} | ${task.reason} | ${formatBytes(task.outputBytes)} | ${text}${task.task.length > 40 ? '...' : ''} |\n`;
+        }
       }
 
       return {
@@ -350,44 +879,722 @@ function registerListTasksTool(server: McpServer): void {
           type: 'text',
           text: output,
         }],
+        structuredContent: { ...report } satisfies z.infer<typeof cleanupReportSchema>,
       };
     }
   );
 }
 
 /**
- * Get task statistics
+ * List all tasks
  */
-function registerGetTaskStatsTool(server: McpServer): void {
-  server.registerTool(
-    'get-task-stats',
-    {
-      description: 'Get statistics about all tasks.',
+const dateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Dates must be ISO 8601 timestamps, e.g. "2025-06-01" or "2025-06-01T09:00:00Z"',
+});
+
+const listTasksSchema = z.object({
+  status: z.union([taskStatusSchema, z.array(taskStatusSchema)]).optional()
+    .describe('Only tasks with this status, or any of these statuses'),
+  workingDirectory: z.string().optional().describe('Only tasks run in this directory or a directory below it'),
+  tags: z.array(z.string()).optional().describe('Only tasks carrying all of these tags'),
+  success: z.boolean().optional().describe('Only finished tasks that succeeded (true) or did not succeed (false)'),
+  search: z.string().optional().describe(
+    'Only tasks whose prompt, output or error contains all of these words (case-insensitive)'
+  ),
+  createdAfter: dateSchema.optional().describe('Only tasks created at or after this time (ISO 8601)'),
+  createdBefore: dateSchema.optional().describe('Only tasks created before this time (ISO 8601)'),
+  completedAfter: dateSchema.optional().describe('Only tasks finished at or after this time (ISO 8601)'),
+  completedBefore: dateSchema.optional().describe('Only tasks finished before this time (ISO 8601)'),
+  sortBy: z.enum(TASK_SORT_FIELDS as [TaskSortField, ...TaskSortField[]]).optional().describe(
+    'Sort by creation time (default), completion time, duration or status (in lifecycle order). ' +
+    'Tasks without a value, such as the duration of an unfinished task, come last.'
+  ),
+  order: z.enum(['asc', 'desc']).optional().describe('Sort order (default: desc)'),
+  cursor: z.string().optional().describe(
+    'Continue after the previous page: pass its nextCursor, with the same filters and sorting'
+  ),
+  limit: z.number().int().min(1).optional().describe('Maximum number of tasks to return (default: 50)'),
+  offset: z.number().int().min(0).optional().describe('Number of tasks to skip (default: 0; ignored with a cursor)'),
+});
+
+function registerListTasksTool(server: McpServer): void {
+  server.registerTool(
+    'list-tasks',
+    {
+      description: 'List tasks, newest first by default. Filter by status (one or several), working directory, tags, ' +
+        'success, creation and completion time, and free text in the prompt and output; sort by creation time, ' +
+        'completion time, duration or status. Long lists are paged: pass the returned cursor to get the next page.',
+      inputSchema: listTasksSchema,
+      outputSchema: toolOutputSchema(taskPageSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = listTasksSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const {
+        status,
+        createdAfter,
+        createdBefore,
+        completedAfter,
+        completedBefore,
+        limit = 50,
+        ...query
+      } = result.data;
+      const toDate = (value: string | undefined) => (value !== undefined ? new Date(value) : undefined);
+
+      let page: TaskPage<TaskInfo>;
+      try {
+        page = taskManager.listTasks({
+          ...query,
+          status: status === undefined ? undefined : Array.isArray(status) ? status : [status],
+          createdAfter: toDate(createdAfter),
+          createdBefore: toDate(createdBefore),
+          completedAfter: toDate(completedAfter),
+          completedBefore: toDate(completedBefore),
+          limit,
+        });
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+      const { tasks, total, nextCursor } = page;
+      const stats = taskManager.getStats();
+      const structuredContent = { ...page, stats } satisfies z.infer<typeof taskPageSchema>;
+
+      if (tasks.length === 0) {
+        const reason = total > 0
+          ? `No more tasks: the previous page was the last of ${total}.`
+          : Object.keys(result.data).some((key) => key !== 'limit' && key !== 'offset')
+            ? 'No tasks match the filters.'
+            : 'No tasks found.';
+        return {
+          content: [{
+            type: 'text',
+            text: `## No Tasks Found\n\n${reason}`,
+          }],
+          structuredContent,
+        };
+      }
+
+      let output = `## Tasks (${tasks.length} of ${total})\n\n`;
+      output += `**Stats:** ${stats.blocked} blocked, ${stats.pending} pending, ${stats.running} running, ${stats.completed} completed, ${stats.failed} failed, ${stats.cancelled} cancelled, ${stats.interrupted} interrupted\n\n`;
+
+      for (const task of tasks) {
+        output += formatTaskInfoShort(task);
+      }
+
+      if (nextCursor) {
+        output += `*More tasks; pass \`cursor: "${nextCursor}"\` for the next page.*\n`;
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: output,
+        }],
+        structuredContent,
+      };
+    }
+  );
+}
+
+/**
+ * Get task statistics
+ */
+function registerGetTaskStatsTool(server: McpServer): void {
+  server.registerTool(
+    'get-task-stats',
+    {
+      description: 'Get statistics about all tasks, plus token and cost totals overall, today, ' +
+        'over the last 24 hours (against the daily budget), per working directory, per day and per model.',
       inputSchema: z.object({}).optional(),
+      outputSchema: toolOutputSchema(statsResultSchema),
     },
     async (): Promise<CallToolResult> => {
       const stats = taskManager.getStats();
+      const spend = taskManager.getSpend();
 
       let output = `## Task Statistics\n\n`;
       output += `| Status | Count |\n`;
       output += `|--------|-------|\n`;
       output += `| Total | ${stats.total} |\n`;
+      output += `| Blocked | ${stats.blocked} |\n`;
       output += `| Pending | ${stats.pending} |\n`;
       output += `| Running | ${stats.running} |\n`;
       output += `| Completed | ${stats.completed} |\n`;
       output += `| Failed | ${stats.failed} |\n`;
       output += `| Cancelled | ${stats.cancelled} |\n`;
+      output += `| Interrupted | ${stats.interrupted} |\n`;
+      output += `\n${formatSpend(spend)}`;
+
+      return {
+        content: [{
+          type: 'text',
+          text: output,
+        }],
+        structuredContent: { stats, spend } satisfies z.infer<typeof statsResultSchema>,
+      };
+    }
+  );
+}
+
+/**
+ * Show the queue of pending tasks
+ */
+function registerGetQueueTool(server: McpServer): void {
+  server.registerTool(
+    'get-queue',
+    {
+      description: 'List the tasks waiting for a free slot in start order, with their priority, position and ' +
+        'estimated start time (based on the durations of recent tasks).',
+      inputSchema: z.object({}).optional(),
+      outputSchema: toolOutputSchema(queueResultSchema),
+    },
+    async (): Promise<CallToolResult> => {
+      const queue = taskManager.getQueue();
+      const stats = taskManager.getStats();
+      const structuredContent = {
+        queue: queue.map(toQueueEntryOutput),
+        running: stats.running,
+      } satisfies z.infer<typeof queueResultSchema>;
+
+      if (queue.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `## Queue Empty\n\nNo tasks are waiting (${stats.running} running).`,
+          }],
+          structuredContent,
+        };
+      }
+
+      let output = `## Task Queue (${queue.length} waiting, ${stats.running} running)\n\n`;
+      output += `| # | Task ID | Priority | Task | Waiting | Waiting For | Estimated Start |\n`;
+      output += `|---|---------|----------|------|---------|-------------|-----------------|\n`;
+      for (const entry of queue) {
+        const waiting = ((Date.now() - entry.queuedAt.getTime()) / 1000).toFixed(0);
+        const estimate = entry.estimatedStartAt ? formatEstimate(entry.estimatedStartAt) : 'unknown';
+        const text = entry.task.task.substring(0, 40).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+        const waitingFor = entry.waitingForLockHeldBy ? `lock held by task \`${entry.waitingForLockHeldBy}\`` : 'free slot';
+        output += `| ${entry.position} | \`${entry.id}\` | ${entry.priority} | ${text}${entry.task.task.length > 40 ? '...' : ''} | ${waiting}s | ${waitingFor} | ${estimate} |\n`;
+      }
+
+      if (queue.some((entry) => !entry.estimatedStartAt)) {
+        output += `\n*Start times are estimated once a task has finished.*\n`;
+      }
 
       return {
         content: [{
           type: 'text',
           text: output,
         }],
+        structuredContent,
       };
     }
   );
 }
 
+/**
+ * Create a workflow of dependent tasks
+ */
+const workflowStepSchema = createTaskSchema.extend({
+  id: z.string().min(1).describe('Step id, unique within the workflow (e.g. "implement", "test", "docs")'),
+  dependsOn: z.array(z.string()).optional().describe(
+    'Step ids (or IDs of existing tasks) that must finish before this step starts'
+  ),
+});
+
+const createWorkflowSchema = z.object({
+  name: z.string().optional().describe('Workflow name, shown in status output'),
+  workingDirectory: z.string().optional().describe('Default working directory of the steps'),
+  failFast: z.boolean().optional().describe(
+    'Cancel the remaining steps as soon as one fails (default: false). Steps with runIf "failure" or "always" still run.'
+  ),
+  steps: z.array(workflowStepSchema).min(1).describe(
+    'Steps of the workflow, forming a DAG through dependsOn. Each step takes the same options as create-task.'
+  ),
+});
+
+function registerCreateWorkflowTool(server: McpServer): void {
+  server.registerTool(
+    'create-workflow',
+    {
+      description: 'Create a multi-step workflow: a DAG of background tasks where each step starts once the steps ' +
+        'it depends on have finished, subject to its runIf condition (success, failure or always).\n\n' +
+        'Example: implement a feature, then write tests if that succeeded, then update the docs; plus a ' +
+        '"report" step with runIf "failure".\n\n' +
+        'Steps that cannot run any more are skipped (cancelled), which cascades to the steps depending on them. ' +
+        'Returns the workflow ID and the task ID of every step; use get-workflow-status to follow it.',
+      inputSchema: createWorkflowSchema,
+      outputSchema: toolOutputSchema(workflowResultSchema),
+    },
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
+      const result = createWorkflowSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { name, workingDirectory, failFast, steps } = result.data;
+
+      try {
+        const workflow = await taskManager.createWorkflow({
+          name,
+          workingDirectory,
+          failFast,
+          steps: steps.map(({ retry, ...step }) => ({
+            ...step,
+            retry: toRetryPolicy(retry),
+            clientSessionId: extra.sessionId,
+          })),
+        });
+
+        let output = `## Workflow Created\n\n`;
+        output += `**Workflow ID:** ${workflow.id}\n`;
+        if (name) {
+          output += `**Name:** ${name}\n`;
+        }
+        output += `\n| Step | Task ID | Status |\n`;
+        output += `|------|---------|--------|\n`;
+        for (const step of workflow.steps) {
+          output += `| ${step.step} | \`${step.taskId}\` | ${taskManager.getTask(step.taskId)?.status ?? 'unknown'} |\n`;
+        }
+        output += `\nUse \`get-workflow-status\` with ID \`${workflow.id}\` to check progress.`;
+
+        const created = taskManager.getWorkflow(workflow.id);
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent: {
+            workflow: toWorkflowOutput(created.summary),
+            steps: created.steps,
+          } satisfies z.infer<typeof workflowResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error creating workflow: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Get the status of a workflow as a whole
+ */
+const getWorkflowStatusSchema = z.object({
+  workflowId: z.string().describe('The workflow ID returned by create-workflow'),
+});
+
+function registerGetWorkflowStatusTool(server: McpServer): void {
+  server.registerTool(
+    'get-workflow-status',
+    {
+      description: 'Get the overall status of a workflow (pending, running, completed, failed or cancelled) ' +
+        'and the status of each of its steps.',
+      inputSchema: getWorkflowStatusSchema,
+      outputSchema: toolOutputSchema(workflowResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = getWorkflowStatusSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      try {
+        const { summary, steps } = taskManager.getWorkflow(result.data.workflowId);
+
+        let output = formatWorkflowSummary(summary);
+        output += `\n### Steps\n\n`;
+        output += `| Step | Task ID | Status | Depends On | Runs If | Details |\n`;
+        output += `|------|---------|--------|------------|---------|---------|\n`;
+        const stepNames = new Map(steps.map((step) => [step.id, step.workflow!.step]));
+        for (const step of steps) {
+          const dependsOn = (step.dependsOn ?? []).map((id) => stepNames.get(id) ?? `\`${id}\``).join(', ') || '-';
+          const details = step.error ?? (step.blockedOn ? `waiting for ${step.blockedOn.map((id) => stepNames.get(id) ?? id).join(', ')}` : '');
+          output += `| ${step.workflow!.step} | \`${step.id}\` | ${step.status} | ${dependsOn} | ${step.runIf ?? '-'} | ${details.replace(/\|/g, '\\|')} |\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent: { workflow: toWorkflowOutput(summary), steps } satisfies z.infer<typeof workflowResultSchema>,
+        };
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Schedule a recurring or one-off task
+ */
+const scheduleTaskSchema = createTaskSchema.omit({ dependsOn: true, runIf: true }).extend({
+  name: z.string().optional().describe('Schedule name, e.g. "morning dependency check"'),
+  cron: z.string().optional().describe(
+    'Cron expression for a recurring schedule, in the server\'s local time: "minute hour day-of-month month day-of-week", ' +
+    'e.g. "0 9 * * 1-5" (weekdays at 9:00) or "*/30 * * * *". Macros: @hourly, @daily, @weekly, @monthly, @yearly.'
+  ),
+  at: z.string().optional().describe('ISO 8601 timestamp for a one-off run, e.g. "2025-06-01T09:00:00Z"'),
+  catchUp: z.enum(CATCH_UP_POLICIES as [CatchUpPolicy, ...CatchUpPolicy[]]).optional().describe(
+    'What to do with runs that fell due while the server was down: "skip" them (default: SCHEDULE_CATCH_UP, else skip), ' +
+    'run "once" for all of them, or run "all" of them (at most 10)'
+  ),
+});
+
+function registerScheduleTaskTool(server: McpServer): void {
+  server.registerTool(
+    'schedule-task',
+    {
+      description: 'Schedule a background task to be created on a recurring cron schedule or once at a given time, ' +
+        'e.g. "check for outdated dependencies and summarize them" every morning. Each run creates a regular task ' +
+        '(same options as create-task). Schedules and their run history survive server restarts.',
+      inputSchema: scheduleTaskSchema,
+      outputSchema: toolOutputSchema(scheduleResultSchema),
+    },
+    async (input: unknown, extra: ToolExtra): Promise<CallToolResult> => {
+      const result = scheduleTaskSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { name, cron, at, catchUp, retry, ...task } = result.data;
+
+      try {
+        const schedule = taskManager.scheduleTask({
+          name,
+          cron,
+          runAt: at !== undefined ? new Date(at) : undefined,
+          catchUp,
+          // Tasks the schedule creates are attributed to the session that scheduled them
+          task: { ...task, retry: toRetryPolicy(retry), clientSessionId: extra.sessionId },
+        });
+
+        logger.info(`Created schedule ${schedule.id}`);
+
+        return {
+          content: [{
+            type: 'text',
+            text: `## Schedule Created\n\n${formatSchedule(schedule)}\n` +
+              `Use \`list-schedules\` to see its runs and \`delete-schedule\` to stop it.`,
+          }],
+          structuredContent: { schedule: toScheduleOutput(schedule) } satisfies z.infer<typeof scheduleResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error creating schedule: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * List schedules
+ */
+const listSchedulesSchema = z.object({
+  scheduleId: z.string().optional().describe('Show one schedule with its run history'),
+});
+
+function registerListSchedulesTool(server: McpServer): void {
+  server.registerTool(
+    'list-schedules',
+    {
+      description: 'List task schedules with their next and last runs, or show one schedule with its run history ' +
+        '(created tasks, failures and runs missed while the server was down).',
+      inputSchema: listSchedulesSchema,
+      outputSchema: toolOutputSchema(scheduleListResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = listSchedulesSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      try {
+        if (result.data.scheduleId) {
+          const schedule = taskManager.getSchedule(result.data.scheduleId);
+          return {
+            content: [{
+              type: 'text',
+              text: `## Schedule ${schedule.name ?? schedule.id}\n\n${formatSchedule(schedule)}\n${formatScheduleRuns(schedule)}`,
+            }],
+            structuredContent: { schedules: [toScheduleOutput(schedule)] } satisfies z.infer<typeof scheduleListResultSchema>,
+          };
+        }
+
+        const schedules = taskManager.listSchedules();
+        const structuredContent = {
+          schedules: schedules.map(toScheduleOutput),
+        } satisfies z.infer<typeof scheduleListResultSchema>;
+        if (schedules.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `## No Schedules\n\nUse \`schedule-task\` to create one.`,
+            }],
+            structuredContent,
+          };
+        }
+
+        let output = `## Schedules (${schedules.length})\n\n`;
+        output += `| Schedule ID | Name | When | State | Next Run | Last Run | Runs |\n`;
+        output += `|-------------|------|------|-------|----------|----------|------|\n`;
+        for (const schedule of schedules) {
+          output += `| \`${schedule.id}\` | ${schedule.name ?? '-'} | ${formatScheduleWhen(schedule)} | ${schedule.state} | ` +
+            `${schedule.nextRunAt?.toLocaleString() ?? '-'} | ${schedule.lastRunAt?.toLocaleString() ?? '-'} | ${schedule.runCount} |\n`;
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent,
+        };
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Delete a schedule
+ */
+const deleteScheduleSchema = z.object({
+  scheduleId: z.string().describe('The schedule ID'),
+});
+
+function registerDeleteScheduleTool(server: McpServer): void {
+  server.registerTool(
+    'delete-schedule',
+    {
+      description: 'Delete a task schedule so it creates no more tasks. Tasks it already created are kept.',
+      inputSchema: deleteScheduleSchema,
+      outputSchema: toolOutputSchema(deletedResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = deleteScheduleSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { scheduleId } = result.data;
+      if (!taskManager.deleteSchedule(scheduleId)) {
+        return createErrorResponse(
+          new McpServerError(ErrorCode.SCHEDULE_NOT_FOUND, `Schedule with ID ${scheduleId} does not exist`, { scheduleId }),
+          `## Schedule Not Found\n\nSchedule with ID \`${scheduleId}\` does not exist.`
+        );
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `## Schedule Deleted\n\nSchedule \`${scheduleId}\` has been deleted.`,
+        }],
+        structuredContent: { id: scheduleId, deleted: true } satisfies z.infer<typeof deletedResultSchema>,
+      };
+    }
+  );
+}
+
+/**
+ * Apply an isolated task's changes to the original checkout
+ */
+const applyTaskChangesSchema = z.object({
+  taskId: z.string().describe('ID of a finished task that ran with isolation "worktree"'),
+  strategy: z.enum(['merge', 'cherry-pick']).optional().describe(
+    'How to bring the branch into the original checkout (default: merge). ' +
+    '"merge" creates a merge commit; "cherry-pick" replays the task\'s commits onto the current branch.'
+  ),
+});
+
+function registerApplyTaskChangesTool(server: McpServer): void {
+  server.registerTool(
+    'apply-task-changes',
+    {
+      description: 'Apply the changes of a task that ran in an isolated git worktree to the original checkout, ' +
+        'then remove the worktree and its branch. If the changes do not apply cleanly the operation is aborted ' +
+        'and the original checkout is left untouched.',
+      inputSchema: applyTaskChangesSchema,
+      outputSchema: toolOutputSchema(applyResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = applyTaskChangesSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId, strategy = 'merge' } = result.data;
+
+      try {
+        const taskInfo = await taskManager.applyTaskChanges(taskId, strategy);
+        return {
+          content: [{
+            type: 'text',
+            text: `## Task Changes Applied\n\n` +
+              `Branch \`${taskInfo.worktree?.branch}\` of task \`${taskId}\` was applied via ${strategy}; ` +
+              `the worktree and branch have been removed.`,
+          }],
+          structuredContent: { task: taskInfo, strategy } satisfies z.infer<typeof applyResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error applying task changes: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Discard an isolated task's changes
+ */
+function registerDiscardTaskChangesTool(server: McpServer): void {
+  server.registerTool(
+    'discard-task-changes',
+    {
+      description: 'Discard the changes of a task that ran in an isolated git worktree: ' +
+        'removes the worktree and deletes its branch. The original checkout is not touched.',
+      inputSchema: getTaskStatusSchema,
+      outputSchema: toolOutputSchema(taskResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = getTaskStatusSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId } = result.data;
+
+      try {
+        const taskInfo = await taskManager.discardTaskChanges(taskId);
+        return {
+          content: [{
+            type: 'text',
+            text: `## Task Changes Discarded\n\n` +
+              `Worktree and branch \`${taskInfo.worktree?.branch}\` of task \`${taskId}\` have been removed.`,
+          }],
+          structuredContent: { task: taskInfo } satisfies z.infer<typeof taskResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error discarding task changes: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Roll a task's changes back to its checkpoint
+ */
+const rollbackTaskSchema = z.object({
+  taskId: z.string().describe('ID of a finished task that was created with checkpoint: true'),
+  force: z.boolean().optional().describe(
+    'Roll back even if tasks that started later modified the same files, discarding their changes to those files (default: false)'
+  ),
+});
+
+function registerRollbackTaskTool(server: McpServer): void {
+  server.registerTool(
+    'rollback-task',
+    {
+      description: 'Undo a finished task\'s changes by restoring the files it modified to their state at the checkpoint ' +
+        'taken before it started: modified and deleted files are restored, added files are removed. ' +
+        'Refuses if tasks that started later modified the same files (unless forced), ' +
+        'or while another task is running in the same directory.',
+      inputSchema: rollbackTaskSchema,
+      outputSchema: toolOutputSchema(rollbackResultSchema),
+    },
+    async (input: unknown): Promise<CallToolResult> => {
+      const result = rollbackTaskSchema.safeParse(input);
+      if (!result.success) {
+        return createErrorResponse(new McpServerError(ErrorCode.INVALID_INPUT, `Invalid input: ${result.error.errors.map(e => e.message).join(', ')}`));
+      }
+
+      const { taskId, force } = result.data;
+
+      try {
+        const { taskInfo, restored } = await taskManager.rollbackTask(taskId, { force });
+
+        let output = `## Task Rolled Back
+
+`;
+        if (restored.length === 0) {
+          output += `Nothing to restore: no file changed by task \`${taskId}\` differs from its checkpoint.`;
+        } else {
+          output += `Restored ${restored.length} file(s) of task \`${taskId}\` from checkpoint ` +
+            `\`${taskInfo.checkpoint?.location}\`:\n\n`;
+          for (const file of restored) {
+            output += `- \`${file.path}\` (${file.status === 'added' ? 'removed' : 'restored'})\n`;
+          }
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: output,
+          }],
+          structuredContent: { task: taskInfo, restored } satisfies z.infer<typeof rollbackResultSchema>,
+        };
+      } catch (error) {
+        logger.error(`Error rolling back task: ${error}`);
+        return createErrorResponse(error);
+      }
+    }
+  );
+}
+
+/**
+ * Error response for an unknown task ID
+ */
+function taskNotFoundResponse(taskId: string): CallToolResult {
+  return createErrorResponse(
+    new McpServerError(ErrorCode.TASK_NOT_FOUND, `Task with ID ${taskId} does not exist`, { taskId }),
+    `## Task Not Found\n\nTask with ID \`${taskId}\` does not exist.`
+  );
+}
+
+/**
+ * Send a background task's status changes and progress to the client that created it as log messages,
+ * until the task finishes
+ */
+function forwardTaskEvents(server: McpServer, extra: ToolExtra, taskId: string): void {
+  const progress = createProgressReporter(server, extra, { logger: `task:${taskId}`, progress: false });
+  const unsubscribe = taskManager.onTaskEvent((event) => {
+    if (event.taskId !== taskId) {
+      return;
+    }
+    if (event.type === 'progress') {
+      progress.report(event.event);
+      return;
+    }
+    if (event.type === 'output') {
+      // Already reported as condensed output lines
+      return;
+    }
+    if (event.type === 'status') {
+      const task = taskManager.getTask(taskId);
+      const failed = event.status === 'failed' || event.status === 'interrupted';
+      progress.log(failed ? 'error' : 'info', `Task ${event.status}${task?.error ? `: ${task.error}` : ''}`);
+    }
+    if (event.type === 'deleted' || FINISHED_STATUSES.includes(event.status)) {
+      unsubscribe();
+    }
+  });
+
+  // The task may have moved on before the subscription
+  const task = taskManager.getTask(taskId);
+  if (!task || FINISHED_STATUSES.includes(task.status)) {
+    unsubscribe();
+  } else {
+    progress.log('info', `Task ${task.status}`);
+  }
+}
+
 /**
  * Format task info for display
  */
@@ -400,6 +1607,39 @@ function formatTaskInfo(task: TaskInfo): string {
   if (task.workingDirectory) {
     output += `| Working Directory | \`${task.workingDirectory}\` |\n`;
   }
+  output += `| Backend | ${task.backend} |\n`;
+  if (task.priority !== 'normal') {
+    output += `| Priority | ${task.priority} |\n`;
+  }
+  if (task.queuePosition !== undefined) {
+    output += `| Queue Position | ${task.queuePosition} (see get-queue) |\n`;
+  }
+  if (task.waitingForLockHeldBy) {
+    output += `| Waiting | for lock held by task \`${task.waitingForLockHeldBy}\` |\n`;
+  }
+  if (task.scheduleId) {
+    output += `| Schedule | \`${task.scheduleId}\` |\n`;
+  }
+  if (task.pinned) {
+    output += `| Pinned | Yes (kept by cleanup) |\n`;
+  }
+  if (task.tags) {
+    output += `| Tags | ${task.tags.map((tag) => `\`${tag}\``).join(', ')} |\n`;
+  }
+  if (task.workflow) {
+    output += `| Workflow | ${task.workflow.name ? `${task.workflow.name} ` : ''}\`${task.workflow.id}\`, step \`${task.workflow.step}\` |\n`;
+  }
+  if (task.dependsOn) {
+    output += `| Depends On | ${task.dependsOn.map((id) => `\`${id}\``).join(', ')} (runs if: ${task.runIf}) |\n`;
+  }
+  if (task.blockedOn) {
+    output += `| Waiting For | ${task.blockedOn.map((id) => `\`${id}\``).join(', ')} |\n`;
+  }
+  if (task.readOnly) {
+    output += `| Read-only | Yes (no lock) |\n`;
+  } else if (task.concurrencyKey) {
+    output += `| Lock | \`${task.concurrencyKey}\` |\n`;
+  }
   output += `| Created | ${new Date(task.createdAt).toLocaleString()} |\n`;
 
   if (task.startedAt) {
@@ -422,25 +1662,275 @@ function formatTaskInfo(task: TaskInfo): string {
   if (task.error) {
     output += `| Error | ${task.error} |\n`;
   }
+  if (task.errorCode) {
+    output += `| Error Code | \`${task.errorCode}\` |\n`;
+  }
+  if (task.usage) {
+    if (task.usage.model) {
+      output += `| Model | ${task.usage.model} |\n`;
+    }
+    output += `| Tokens | ${task.usage.inputTokens} in / ${task.usage.outputTokens} out |\n`;
+    const budget = task.maxCostUsd !== undefined ? ` (budget $${task.maxCostUsd.toFixed(2)})` : '';
+    output += `| Cost | $${task.usage.costUsd.toFixed(4)}${budget} |\n`;
+  }
+  if (task.attempt) {
+    const previous = task.attempt.previousFailure ? `, previous failure: ${task.attempt.previousFailure}` : '';
+    output += `| Attempt | ${task.attempt.number}/${task.attempt.maxAttempts}${previous} |\n`;
+  }
+  if (task.sessionId) {
+    output += `| Session ID | \`${task.sessionId}\` |\n`;
+  }
+  if (task.parentTaskId) {
+    output += `| Continues | \`${task.parentTaskId}\` |\n`;
+  }
+  if (task.clientSessionId) {
+    output += `| Client Session | \`${task.clientSessionId}\` |\n`;
+  }
+  if (task.worktree) {
+    output += `| Branch | \`${task.worktree.branch}\` (${task.worktree.state}) |\n`;
+    if (task.worktree.state === 'active') {
+      output += `| Worktree | \`${task.worktree.path}\` |\n`;
+    }
+  }
+  if (task.checkpoint) {
+    output += `| Checkpoint | \`${task.checkpoint.location}\` (${task.checkpoint.state}) |\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Format the branch, commits and diff of an isolated task
+ */
+function formatWorktreeChanges(task: TaskInfo, commits: WorktreeCommit[], diff?: string): string {
+  let output = `### Changes on \`${task.worktree?.branch}\`\n\n`;
+
+  if (commits.length === 0) {
+    return output + 'The task made no changes.';
+  }
+
+  for (const commit of commits) {
+    output += `- \`${commit.hash.substring(0, 8)}\` ${commit.subject}\n`;
+  }
+
+  if (diff) {
+    output += `\n\`\`\`diff\n${diff.trim()}\n\`\`\`\n`;
+  }
+
+  if (task.worktree?.state === 'active') {
+    output += `\nUse \`apply-task-changes\` to bring these changes into the original checkout, ` +
+      `or \`discard-task-changes\` to drop them.`;
+  }
+
+  return output;
+}
+
+/**
+ * Format spend totals and breakdowns
+ */
+function formatSpend(spend: SpendSummary): string {
+  const row = (label: string, totals: UsageTotals) =>
+    `| ${label} | ${totals.tasks} | ${totals.inputTokens} | ${totals.outputTokens} | $${totals.costUsd.toFixed(4)} |\n`;
+  const header = (label: string) =>
+    `| ${label} | Tasks | Input Tokens | Output Tokens | Cost |\n|---|---|---|---|---|\n`;
+
+  let output = `## Spend\n\n`;
+  output += header('Period');
+  output += row('Overall', spend.overall);
+  output += row('Today', spend.today);
+  output += row('Last 24h', spend.last24h);
+
+  if (spend.dailyBudgetUsd !== undefined) {
+    const remaining = Math.max(0, spend.dailyBudgetUsd - spend.last24h.costUsd);
+    output += `\n**Daily budget:** $${spend.dailyBudgetUsd.toFixed(2)} (rolling 24h), $${remaining.toFixed(2)} remaining\n`;
+  }
+
+  if (spend.overall.tasks === 0) {
+    return output + '\n_No usage recorded yet (usage is reported by stream-json tasks)._\n';
+  }
+
+  output += `\n### By Working Directory\n\n${header('Directory')}`;
+  for (const entry of spend.byDirectory) {
+    output += row(`\`${entry.workingDirectory}\``, entry);
+  }
+  output += `\n### By Day\n\n${header('Day')}`;
+  for (const entry of spend.byDay.slice(0, 14)) {
+    output += row(entry.day, entry);
+  }
+  output += `\n### By Model\n\n${header('Model')}`;
+  for (const entry of spend.byModel) {
+    output += row(entry.model, entry);
+  }
+
+  return output;
+}
+
+/**
+ * Format the attempt history of a retried task (empty if it ran once)
+ */
+function formatAttempts(task: TaskInfo): string {
+  if (!task.attempts) {
+    return '';
+  }
+
+  let output = `\n### Attempts\n\n`;
+  output += `| # | Outcome | Error | Retried After |\n`;
+  output += `|---|---------|-------|---------------|\n`;
+  for (const attempt of task.attempts) {
+    const outcome = attempt.success ? 'success' : attempt.failureClass ?? 'failed';
+    const delay = attempt.retryDelayMs !== undefined ? `${(attempt.retryDelayMs / 1000).toFixed(1)}s` : '-';
+    output += `| ${attempt.attempt} | ${outcome} | ${attempt.error ?? '-'} | ${delay} |\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Format the conversation chain of a task (empty if it has no parent or follow-ups)
+ */
+function formatTaskChain(ancestors: TaskInfo[], task: TaskInfo, followUps: TaskInfo[]): string {
+  if (ancestors.length === 0 && followUps.length === 0) {
+    return '';
+  }
+
+  const line = (t: TaskInfo, marker: string) =>
+    `${marker} \`${t.id}\` (${t.status}): ${t.task.substring(0, 60)}${t.task.length > 60 ? '...' : ''}\n`;
+
+  let output = `\n### Conversation Chain\n\n`;
+  ancestors.forEach((t, index) => {
+    output += line(t, `${index + 1}.`);
+  });
+  output += line(task, `${ancestors.length + 1}. **(this task)**`);
+  for (const t of followUps) {
+    output += line(t, `   - follow-up`);
+  }
+
+  return output;
+}
+
+/**
+ * Format the overall status of a workflow
+ */
+function formatWorkflowSummary(summary: WorkflowSummary): string {
+  let output = `## Workflow ${summary.name ?? summary.id}\n\n`;
+  output += `| Property | Value |\n`;
+  output += `|----------|-------|\n`;
+  output += `| Workflow ID | \`${summary.id}\` |\n`;
+  output += `| Status | **${summary.status}** |\n`;
+  output += `| Steps | ${Object.entries(summary.counts).map(([status, count]) => `${count} ${status}`).join(', ')} |\n`;
+  if (summary.skipped > 0) {
+    output += `| Skipped | ${summary.skipped} (run condition not met) |\n`;
+  }
+  output += `| Created | ${summary.createdAt.toLocaleString()} |\n`;
+  if (summary.completedAt) {
+    output += `| Completed | ${summary.completedAt.toLocaleString()} |\n`;
+  }
+  return output;
+}
+
+/**
+ * Format a schedule's settings
+ */
+function formatSchedule(schedule: Schedule): string {
+  let output = `| Property | Value |\n`;
+  output += `|----------|-------|\n`;
+  output += `| Schedule ID | \`${schedule.id}\` |\n`;
+  if (schedule.name) {
+    output += `| Name | ${schedule.name} |\n`;
+  }
+  output += `| When | ${formatScheduleWhen(schedule)} |\n`;
+  output += `| Task | ${schedule.task.task.substring(0, 100)}${schedule.task.task.length > 100 ? '...' : ''} |\n`;
+  if (schedule.task.workingDirectory) {
+    output += `| Working Directory | \`${schedule.task.workingDirectory}\` |\n`;
+  }
+  output += `| State | ${schedule.state} |\n`;
+  output += `| Catch-up | ${schedule.catchUp} |\n`;
+  if (schedule.nextRunAt) {
+    output += `| Next Run | ${schedule.nextRunAt.toLocaleString()} |\n`;
+  }
+  if (schedule.lastRunAt) {
+    output += `| Last Run | ${schedule.lastRunAt.toLocaleString()} |\n`;
+  }
+  output += `| Tasks Created | ${schedule.runCount} |\n`;
+  return output;
+}
+
+function formatScheduleWhen(schedule: Schedule): string {
+  return schedule.cron ? `\`${schedule.cron}\`` : `once at ${schedule.runAt?.toLocaleString()}`;
+}
+
+/**
+ * Format a schedule's run history, newest first
+ */
+function formatScheduleRuns(schedule: Schedule): string {
+  if (schedule.runs.length === 0) {
+    return `### Runs\n\nNo runs yet.\n`;
+  }
 
+  let output = `### Runs (last ${schedule.runs.length})\n\n`;
+  output += `| Due | Outcome | Task ID |\n`;
+  output += `|-----|---------|---------|\n`;
+  for (const run of [...schedule.runs].reverse()) {
+    const outcome = run.missed
+      ? 'missed (server down)'
+      : run.error
+        ? `failed: ${run.error.replace(/\|/g, '\\|')}`
+        : run.catchUp ? `created late (catch-up) at ${run.firedAt?.toLocaleString()}` : 'created';
+    output += `| ${run.scheduledFor.toLocaleString()} | ${outcome} | ${run.taskId ? `\`${run.taskId}\`` : '-'} |\n`;
+  }
   return output;
 }
 
+/**
+ * Format an estimated start time relative to now
+ */
+function formatEstimate(at: Date): string {
+  const seconds = Math.round((at.getTime() - Date.now()) / 1000);
+  if (seconds <= 0) {
+    return 'now';
+  }
+  return seconds < 120 ? `in ~${seconds}s` : `in ~${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Format short task info for list display
  */
 function formatTaskInfoShort(task: TaskInfo): string {
   const statusEmoji = {
+    blocked: '⏸️',
     pending: '⏳',
     running: '🔄',
     completed: '✅',
     failed: '❌',
     cancelled: '🛑',
+    interrupted: '⚠️',
   };
 
   let output = `### ${statusEmoji[task.status]} ${task.id}\n\n`;
-  output += `- **Status:** ${task.status}\n`;
+  output += `- **Status:** ${task.status}${task.waitingForLockHeldBy ? ` (waiting for lock held by task \`${task.waitingForLockHeldBy}\`)` : ''}\n`;
+  if (task.blockedOn) {
+    output += `- **Waiting For:** ${task.blockedOn.map((id) => `\`${id}\``).join(', ')}\n`;
+  }
+  if (task.workflow) {
+    output += `- **Workflow:** ${task.workflow.name ?? task.workflow.id} (step \`${task.workflow.step}\`)\n`;
+  }
   output += `- **Task:** ${task.task.substring(0, 80)}${task.task.length > 80 ? '...' : ''}\n`;
+  if (task.tags) {
+    output += `- **Tags:** ${task.tags.map((tag) => `\`${tag}\``).join(', ')}\n`;
+  }
   output += `- **Created:** ${new Date(task.createdAt).toLocaleString()}\n`;
 
   if (task.status === 'running' && task.startedAt) {
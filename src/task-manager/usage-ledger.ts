@@ -0,0 +1,120 @@
+/**
+ * Usage Ledger
+ *
+ * Records the tokens and cost of every finished task so spend can be
+ * aggregated per working directory, per day and overall - independently of
+ * the task list, which is cleaned up over time.
+ */
+
+import type { RunUsage } from '../claude/executor.js';
+
+export interface UsageEntry extends RunUsage {
+  taskId: string;
+  /** Resolved working directory */
+  workingDirectory: string;
+  recordedAt: Date;
+}
+
+export interface UsageTotals {
+  tasks: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface SpendSummary {
+  overall: UsageTotals;
+  /** Calendar day (local time) of today */
+  today: UsageTotals;
+  /** Rolling 24 hours, which the daily budget applies to */
+  last24h: UsageTotals;
+  /** Daily cap in USD, if configured */
+  dailyBudgetUsd?: number;
+  /** Most expensive first */
+  byDirectory: Array<{ workingDirectory: string } & UsageTotals>;
+  /** Newest first */
+  byDay: Array<{ day: string } & UsageTotals>;
+  /** Most expensive first */
+  byModel: Array<{ model: string } & UsageTotals>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Append-only record of task usage
+ */
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+
+  /**
+   * Record the usage of a finished task
+   */
+  record(entry: UsageEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Total cost in USD recorded since the given time
+   */
+  spentSince(since: Date): number {
+    return this.entries
+      .filter((entry) => entry.recordedAt >= since)
+      .reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+
+  /**
+   * Total cost in USD over the last 24 hours
+   */
+  spentLast24h(now: Date = new Date()): number {
+    return this.spentSince(new Date(now.getTime() - DAY_MS));
+  }
+
+  /**
+   * Aggregate all recorded usage
+   */
+  summarize(now: Date = new Date()): Omit<SpendSummary, 'dailyBudgetUsd'> {
+    const today = dayKey(now);
+    const since = new Date(now.getTime() - DAY_MS);
+
+    return {
+      overall: totals(this.entries),
+      today: totals(this.entries.filter((entry) => dayKey(entry.recordedAt) === today)),
+      last24h: totals(this.entries.filter((entry) => entry.recordedAt >= since)),
+      byDirectory: groupBy(this.entries, (entry) => entry.workingDirectory)
+        .map(([workingDirectory, group]) => ({ workingDirectory, ...totals(group) }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      byDay: groupBy(this.entries, (entry) => dayKey(entry.recordedAt))
+        .map(([day, group]) => ({ day, ...totals(group) }))
+        .sort((a, b) => b.day.localeCompare(a.day)),
+      byModel: groupBy(this.entries, (entry) => entry.model ?? 'unknown')
+        .map(([model, group]) => ({ model, ...totals(group) }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    };
+  }
+}
+
+function totals(entries: UsageEntry[]): UsageTotals {
+  return {
+    tasks: entries.length,
+    inputTokens: entries.reduce((sum, entry) => sum + entry.inputTokens, 0),
+    outputTokens: entries.reduce((sum, entry) => sum + entry.outputTokens, 0),
+    costUsd: entries.reduce((sum, entry) => sum + entry.costUsd, 0),
+  };
+}
+
+function groupBy(entries: UsageEntry[], key: (entry: UsageEntry) => string): Array<[string, UsageEntry[]]> {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const k = key(entry);
+    groups.set(k, [...(groups.get(k) ?? []), entry]);
+  }
+  return Array.from(groups.entries());
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
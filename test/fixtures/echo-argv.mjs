@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Stand-in agent CLI: prints its arguments as a JSON array
+process.stdout.write(JSON.stringify(process.argv.slice(2)));
@@ -0,0 +1,226 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Clock, TaskScheduler } from '../src/task-manager/scheduler.js';
+
+/**
+ * Clock the tests move forward by hand
+ */
+class FakeClock implements Clock {
+  time = 0;
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * Stand-in for the task executor: records which tasks started and lets the test finish them
+ */
+class FakeExecutor {
+  started: string[] = [];
+  private pending = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+
+  run = (id: string): Promise<void> => {
+    this.started.push(id);
+    return new Promise<void>((resolve, reject) => this.pending.set(id, { resolve, reject }));
+  };
+
+  get running(): string[] {
+    return [...this.pending.keys()];
+  }
+
+  async finish(id: string, error?: Error): Promise<void> {
+    const run = this.pending.get(id);
+    assert.ok(run, `${id} is not running`);
+    this.pending.delete(id);
+    if (error) {
+      run.reject(error);
+    } else {
+      run.resolve();
+    }
+    await settle();
+  }
+}
+
+/** Let the scheduler's promise callbacks run */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function createScheduler(maxConcurrent: number) {
+  const clock = new FakeClock();
+  const executor = new FakeExecutor();
+  const scheduler = new TaskScheduler({ maxConcurrent, run: executor.run, clock });
+  return { clock, executor, scheduler };
+}
+
+describe('TaskScheduler', () => {
+  it('starts higher priorities first', async () => {
+    const { executor, scheduler } = createScheduler(1);
+    scheduler.enqueue('blocker');
+    scheduler.enqueue('low', 'low');
+    scheduler.enqueue('normal', 'normal');
+    scheduler.enqueue('urgent', 'urgent');
+    scheduler.enqueue('high', 'high');
+    await settle();
+
+    assert.deepEqual(scheduler.getQueue().map((entry) => entry.id), ['urgent', 'high', 'normal', 'low']);
+
+    for (const id of ['blocker', 'urgent', 'high', 'normal']) {
+      await executor.finish(id);
+    }
+    assert.deepEqual(executor.started, ['blocker', 'urgent', 'high', 'normal', 'low']);
+  });
+
+  it('keeps tasks of the same priority in arrival order', async () => {
+    const { scheduler } = createScheduler(1);
+    scheduler.enqueue('blocker');
+    scheduler.enqueue('first', 'high');
+    scheduler.enqueue('second', 'normal');
+    scheduler.enqueue('third', 'high');
+    scheduler.enqueue('fourth', 'normal');
+    await settle();
+
+    assert.deepEqual(scheduler.getQueue().map((entry) => entry.id), ['first', 'third', 'second', 'fourth']);
+    assert.deepEqual(scheduler.getQueue().map((entry) => entry.position), [1, 2, 3, 4]);
+    assert.equal(scheduler.getPosition('second'), 3);
+  });
+
+  it('ignores a task that is already queued or running', async () => {
+    const { executor, scheduler } = createScheduler(1);
+    scheduler.enqueue('a');
+    scheduler.enqueue('b');
+    scheduler.enqueue('a', 'urgent');
+    scheduler.enqueue('b', 'urgent');
+    await settle();
+
+    assert.deepEqual(executor.started, ['a']);
+    assert.deepEqual(scheduler.getQueue().map((entry) => entry.priority), ['normal']);
+  });
+
+  it('hands a freed slot to the next task as soon as a run settles', async () => {
+    const { executor, scheduler } = createScheduler(2);
+    for (const id of ['a', 'b', 'c', 'd']) {
+      scheduler.enqueue(id);
+    }
+    await settle();
+
+    assert.deepEqual(executor.running, ['a', 'b']);
+    assert.equal(scheduler.runningCount, 2);
+
+    await executor.finish('b');
+    assert.deepEqual(executor.running, ['a', 'c']);
+
+    // A failed run frees its slot too
+    await executor.finish('a', new Error('boom'));
+    assert.deepEqual(executor.running, ['c', 'd']);
+    assert.equal(scheduler.getQueue().length, 0);
+  });
+
+  it('does not start a task removed from the queue', async () => {
+    const { executor, scheduler } = createScheduler(1);
+    scheduler.enqueue('a');
+    scheduler.enqueue('b');
+    scheduler.enqueue('c');
+    await settle();
+
+    assert.equal(scheduler.remove('b'), true);
+    assert.equal(scheduler.remove('a'), false);
+    await executor.finish('a');
+    assert.deepEqual(executor.started, ['a', 'c']);
+  });
+
+  it('passes over tasks whose concurrency key is held', async () => {
+    const { executor, scheduler } = createScheduler(2);
+    scheduler.enqueue('a', 'normal', 'repo');
+    scheduler.enqueue('b', 'urgent', 'repo');
+    scheduler.enqueue('c', 'low');
+    await settle();
+
+    // b outranks c but has to wait for a, so c takes the free slot
+    assert.deepEqual(executor.running, ['a', 'c']);
+    assert.equal(scheduler.getLockHolder('repo'), 'a');
+    assert.deepEqual(
+      scheduler.getQueue().map(({ id, concurrencyKey, waitingForLockHeldBy }) => ({ id, concurrencyKey, waitingForLockHeldBy })),
+      [{ id: 'b', concurrencyKey: 'repo', waitingForLockHeldBy: 'a' }]
+    );
+
+    // Finishing an unrelated task frees a slot, but b still waits for its key
+    await executor.finish('c');
+    assert.deepEqual(executor.running, ['a']);
+
+    await executor.finish('a');
+    assert.deepEqual(executor.running, ['b']);
+    assert.equal(scheduler.getLockHolder('repo'), 'b');
+  });
+
+  describe('getQueue estimates', () => {
+    it('has no start estimates before any run has finished', async () => {
+      const { scheduler } = createScheduler(1);
+      scheduler.enqueue('a');
+      scheduler.enqueue('b');
+      await settle();
+
+      const [queued] = scheduler.getQueue();
+      assert.equal(queued.id, 'b');
+      assert.equal(queued.estimatedStartAt, undefined);
+      assert.deepEqual(queued.queuedAt, new Date(0));
+    });
+
+    it('estimates start times from the average duration of recent runs', async () => {
+      const { clock, executor, scheduler } = createScheduler(1);
+      // Two runs taking 1000ms and 3000ms: 2000ms on average
+      scheduler.enqueue('warm-up-1');
+      await settle();
+      clock.advance(1000);
+      await executor.finish('warm-up-1');
+      scheduler.enqueue('warm-up-2');
+      await settle();
+      clock.advance(3000);
+      await executor.finish('warm-up-2');
+
+      // t=4000: a starts; b and c queue behind it
+      scheduler.enqueue('a');
+      scheduler.enqueue('b');
+      scheduler.enqueue('c');
+      await settle();
+      clock.advance(500);
+
+      assert.deepEqual(
+        scheduler.getQueue().map((entry) => entry.estimatedStartAt?.getTime()),
+        [6000, 8000]
+      );
+
+      // A run taking longer than the average is expected to end now, not in the past
+      clock.advance(5000);
+      assert.deepEqual(
+        scheduler.getQueue().map((entry) => entry.estimatedStartAt?.getTime()),
+        [9500, 11500]
+      );
+    });
+
+    it('starts estimates for keyed tasks after the key is released', async () => {
+      const { clock, executor, scheduler } = createScheduler(2);
+      scheduler.enqueue('warm-up');
+      await settle();
+      clock.advance(1000);
+      await executor.finish('warm-up');
+
+      // t=1000: a holds the key and one slot; the other slot is free
+      scheduler.enqueue('a', 'normal', 'repo');
+      await settle();
+      clock.advance(200);
+      scheduler.enqueue('b', 'high', 'repo');
+      scheduler.enqueue('c', 'high', 'repo');
+
+      assert.deepEqual(
+        scheduler.getQueue().map((entry) => [entry.id, entry.estimatedStartAt?.getTime()]),
+        [['b', 2000], ['c', 3000]]
+      );
+    });
+  });
+});